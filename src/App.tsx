@@ -1,10 +1,13 @@
 import VaultDashboard from "./components/VaultDashboard";
+import { Web3Provider } from "./context/Web3Provider";
 
 function App() {
   return (
-    <div className="App">
-      <VaultDashboard />
-    </div>
+    <Web3Provider>
+      <div className="App">
+        <VaultDashboard />
+      </div>
+    </Web3Provider>
   );
 }
 
@@ -0,0 +1,100 @@
+import React from "react";
+import { useWeb3 } from "../hooks/useWeb3";
+import { useActivity } from "../hooks/useActivity";
+import { useEnsName } from "../hooks/useEns";
+import { formatTokenAmount, shortenAddress } from "../utils/format";
+import type { ActivityKind } from "../utils/activity";
+
+const KIND_LABELS: Record<ActivityKind, { label: string; style: string }> = {
+  deposit: { label: "📥 Deposit", style: "text-green-600" },
+  withdrawal: { label: "📤 Withdrawal", style: "text-red-600" },
+  emergencyWithdrawal: {
+    label: "🚨 Emergency withdrawal",
+    style: "text-orange-600",
+  },
+};
+
+const ActivityTab: React.FC = () => {
+  const { network, activeAddress } = useWeb3();
+  const ensName = useEnsName(activeAddress);
+  const { items, syncing, error, refresh, vaultUnconfigured } = useActivity();
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <span>📜</span> Vault Activity
+          {activeAddress && (
+            <span className="text-sm font-medium text-gray-500">
+              of {ensName ?? shortenAddress(activeAddress)}
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={refresh}
+          disabled={syncing}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50 flex items-center gap-2"
+        >
+          {syncing && (
+            <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          )}
+          {syncing ? "Scanning blocks..." : "Refresh"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600">{error.userMessage}</p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          {vaultUnconfigured
+            ? "No vault on this network"
+            : syncing
+              ? "Looking for vault activity..."
+              : "No vault activity yet"}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="flex items-center justify-between border rounded-lg p-4 bg-white"
+            >
+              <div>
+                <div
+                  className={`font-semibold ${KIND_LABELS[item.kind].style}`}
+                >
+                  {KIND_LABELS[item.kind].label}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {item.timestamp
+                    ? new Date(item.timestamp * 1000).toLocaleString()
+                    : `Block ${item.blockNumber}`}
+                </div>
+              </div>
+
+              <div className="text-right">
+                <div className="font-bold text-gray-900">
+                  {item.tokenInfo
+                    ? `${formatTokenAmount(BigInt(item.amount), item.tokenInfo.decimals)} ${item.tokenInfo.symbol}`
+                    : shortenAddress(item.token)}
+                </div>
+                <a
+                  href={`${network?.explorerUrl}/tx/${item.txHash}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-mono text-xs text-blue-600 hover:underline"
+                >
+                  {shortenAddress(item.txHash, 6)}
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ActivityTab;
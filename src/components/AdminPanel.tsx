@@ -0,0 +1,280 @@
+import React, { useState } from "react";
+import { isAddress } from "ethers";
+import { useERC20, useERC20Balance, useTokensInfo } from "../hooks/useERC20";
+import {
+  checkTokenAmount,
+  formatTokenLabel,
+  shortenAddress,
+} from "../utils/format";
+import TokenAmountInput from "./TokenAmountInput";
+
+interface AdminPanelProps {
+  supportedTokens: Record<string, string>;
+  vaultAddress: string | null;
+  isPaused: boolean;
+  loading: boolean;
+  onAddToken: (tokenAddress: string) => Promise<boolean>;
+  onRemoveToken: (tokenAddress: string) => Promise<boolean>;
+  onPause: () => Promise<boolean>;
+  onUnpause: () => Promise<boolean>;
+  onEmergencyWithdraw: (
+    tokenAddress: string,
+    amountRaw: bigint,
+    recipient: string,
+  ) => Promise<boolean>;
+}
+
+// Owner-only vault operations. Handlers resolve to true on success so the
+// forms can reset themselves.
+const AdminPanel: React.FC<AdminPanelProps> = ({
+  supportedTokens,
+  vaultAddress,
+  isPaused,
+  loading,
+  onAddToken,
+  onRemoveToken,
+  onPause,
+  onUnpause,
+  onEmergencyWithdraw,
+}) => {
+  const tokenInfos = useTokensInfo(Object.values(supportedTokens));
+  const [addTokenInput, setAddTokenInput] = useState("");
+  const [removeTokenInput, setRemoveTokenInput] = useState("");
+  const [emergencyToken, setEmergencyToken] = useState("");
+  const [emergencyAmount, setEmergencyAmount] = useState("");
+  const [emergencyRecipient, setEmergencyRecipient] = useState("");
+  const [confirmingEmergency, setConfirmingEmergency] = useState(false);
+
+  // Emergency withdrawals are limited by what the vault holds, not by user
+  // balances
+  const { tokenInfo: emergencyTokenInfo } = useERC20(emergencyToken || null);
+  const vaultHoldings = useERC20Balance(emergencyToken || null, vaultAddress);
+  const emergencyDecimals = emergencyTokenInfo?.decimals ?? null;
+  const emergencyAvailable =
+    !emergencyToken || vaultHoldings.loading || vaultHoldings.error
+      ? null
+      : vaultHoldings.balanceRaw;
+  const emergencyCheck = checkTokenAmount(
+    emergencyAmount,
+    emergencyDecimals,
+    emergencyAvailable,
+  );
+
+  const handleAddToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onAddToken(addTokenInput)) setAddTokenInput("");
+  };
+
+  const handleRemoveToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await onRemoveToken(removeTokenInput)) setRemoveTokenInput("");
+  };
+
+  const handleEmergencySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setConfirmingEmergency(true);
+  };
+
+  const handleEmergencyConfirm = async () => {
+    setConfirmingEmergency(false);
+    if (emergencyCheck.amount === null) return;
+    const succeeded = await onEmergencyWithdraw(
+      emergencyToken,
+      emergencyCheck.amount,
+      emergencyRecipient,
+    );
+    if (succeeded) {
+      setEmergencyAmount("");
+      setEmergencyRecipient("");
+    }
+  };
+
+  const emergencySymbol = tokenInfos[emergencyToken]?.symbol ?? "";
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6 p-6 border-2 border-orange-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <span>🛠️</span> Vault Admin
+        </h2>
+        <span
+          className={`px-3 py-1 rounded-full text-xs font-medium ${
+            isPaused ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"
+          }`}
+        >
+          {isPaused ? "Paused" : "Active"}
+        </span>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Supported tokens */}
+        <div className="space-y-4">
+          <form onSubmit={handleAddToken} className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Add supported token
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={addTokenInput}
+                onChange={(e) => setAddTokenInput(e.target.value)}
+                placeholder="0x..."
+                className="flex-1 p-2 border rounded-lg font-mono text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!isAddress(addTokenInput) || loading}
+                className="px-4 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+          </form>
+
+          <form onSubmit={handleRemoveToken} className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Remove supported token
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={removeTokenInput}
+                onChange={(e) => setRemoveTokenInput(e.target.value)}
+                placeholder="0x..."
+                list="admin-supported-tokens"
+                className="flex-1 p-2 border rounded-lg font-mono text-sm"
+              />
+              <datalist id="admin-supported-tokens">
+                {Object.entries(supportedTokens).map(([name, address]) => (
+                  <option key={address} value={address}>
+                    {formatTokenLabel(tokenInfos[address], name)}
+                  </option>
+                ))}
+              </datalist>
+              <button
+                type="submit"
+                disabled={!isAddress(removeTokenInput) || loading}
+                className="px-4 bg-gray-700 text-white rounded-lg text-sm font-semibold hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Remove
+              </button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Deposits & withdrawals
+            </label>
+            <button
+              onClick={isPaused ? onUnpause : onPause}
+              disabled={loading}
+              className={`w-full py-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed ${
+                isPaused
+                  ? "bg-green-600 hover:bg-green-700"
+                  : "bg-red-600 hover:bg-red-700"
+              }`}
+            >
+              {isPaused ? "▶️ Unpause vault" : "⏸️ Pause vault"}
+            </button>
+          </div>
+        </div>
+
+        {/* Emergency withdraw */}
+        <form onSubmit={handleEmergencySubmit} className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Emergency withdraw
+          </label>
+          <select
+            value={emergencyToken}
+            onChange={(e) => setEmergencyToken(e.target.value)}
+            className="w-full p-2 border rounded-lg text-sm"
+          >
+            <option value="">Select Token</option>
+            {Object.entries(supportedTokens).map(([name, address]) => (
+              <option key={address} value={address}>
+                {formatTokenLabel(tokenInfos[address], name)}
+              </option>
+            ))}
+          </select>
+          <TokenAmountInput
+            value={emergencyAmount}
+            onChange={setEmergencyAmount}
+            check={emergencyCheck}
+            decimals={emergencyDecimals}
+            available={emergencyAvailable}
+            availableLabel="Held by vault"
+            symbol={emergencySymbol}
+          />
+          <input
+            type="text"
+            value={emergencyRecipient}
+            onChange={(e) => setEmergencyRecipient(e.target.value)}
+            placeholder="Recipient 0x..."
+            className="w-full p-2 border rounded-lg font-mono text-sm"
+          />
+          <button
+            type="submit"
+            disabled={
+              !emergencyToken ||
+              emergencyCheck.amount === null ||
+              !isAddress(emergencyRecipient) ||
+              loading
+            }
+            className="w-full py-2 bg-orange-600 text-white rounded-lg text-sm font-semibold hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            🚨 Emergency withdraw
+          </button>
+        </form>
+      </div>
+
+      {/* Confirmation dialog */}
+      {confirmingEmergency && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <h3 className="text-lg font-bold text-gray-900 mb-2">
+              Confirm emergency withdrawal
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              This moves tokens out of the vault regardless of user balances. It
+              cannot be undone.
+            </p>
+            <dl className="text-sm space-y-1 mb-6">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Amount</dt>
+                <dd className="font-semibold">
+                  {emergencyAmount} {emergencySymbol}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Token</dt>
+                <dd className="font-mono">{shortenAddress(emergencyToken)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Recipient</dt>
+                <dd className="font-mono break-all text-right">
+                  {emergencyRecipient}
+                </dd>
+              </div>
+            </dl>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setConfirmingEmergency(false)}
+                className="flex-1 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleEmergencyConfirm}
+                className="flex-1 py-2 bg-orange-600 text-white rounded-lg text-sm font-semibold hover:bg-orange-700"
+              >
+                Withdraw
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,87 @@
+import React from "react";
+import { FEE_TIERS, type FeeTier } from "../utils/fees";
+import type { FeeEstimate } from "../hooks/useFeeEstimate";
+import { formatTokenAmount } from "../utils/format";
+
+const TIER_LABELS: Record<FeeTier, string> = {
+  slow: "🐢 Slow",
+  normal: "🚗 Normal",
+  fast: "🚀 Fast",
+};
+
+interface FeePreviewProps {
+  estimate: FeeEstimate;
+  feeTier: FeeTier;
+  onFeeTierChange: (tier: FeeTier) => void;
+  nativeCurrency: string;
+}
+
+// Network fee for the pending action at each speed, in native currency;
+// on OP Stack chains this includes the L1 data fee
+const FeePreview: React.FC<FeePreviewProps> = ({
+  estimate,
+  feeTier,
+  onFeeTierChange,
+  nativeCurrency,
+}) => {
+  const { gasLimit, quotes, l1Fee, loading, error } = estimate;
+
+  if (!loading && !gasLimit && !error) return null;
+
+  const formatCost = (feePerGas: bigint) =>
+    gasLimit ? formatTokenAmount(gasLimit * feePerGas + l1Fee, 18) : "-";
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-medium text-gray-700">Network fee</span>
+        {loading && (
+          <span className="text-xs text-gray-400 animate-pulse">
+            Estimating...
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FEE_TIERS.map((tier) => (
+          <button
+            key={tier}
+            type="button"
+            onClick={() => onFeeTierChange(tier)}
+            className={`rounded-lg border px-2 py-1.5 text-left transition ${
+              feeTier === tier
+                ? "border-blue-500 bg-blue-50"
+                : "border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="text-xs font-medium text-gray-700">
+              {TIER_LABELS[tier]}
+            </div>
+            <div className="text-xs text-gray-500">
+              {quotes ? formatCost(quotes[tier].expectedFeePerGas) : "-"}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="mt-2 text-xs text-yellow-700">
+          ⚠️ Could not estimate fees: {error.userMessage}
+        </p>
+      ) : (
+        quotes &&
+        gasLimit && (
+          <p className="mt-2 text-xs text-gray-500">
+            ≈ {formatCost(quotes[feeTier].expectedFeePerGas)} {nativeCurrency}{" "}
+            (max {formatCost(quotes[feeTier].maxFeePerGas)}) for{" "}
+            {gasLimit.toLocaleString("en-US")} gas
+            {l1Fee > 0n &&
+              `, including ${formatTokenAmount(l1Fee, 18)} ${nativeCurrency} L1 data fee`}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default FeePreview;
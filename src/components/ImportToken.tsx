@@ -0,0 +1,236 @@
+import React, { useState, useSyncExternalStore } from "react";
+import { ZeroAddress, getAddress, isAddress } from "ethers";
+import { useWeb3 } from "../hooks/useWeb3";
+import { useERC20, useERC20Balance, useTokensInfo } from "../hooks/useERC20";
+import {
+  getImportedTokens,
+  importToken,
+  removeImportedToken,
+  subscribeImportedTokens,
+} from "../utils/importedTokens";
+import { shortenAddress } from "../utils/format";
+import { getListedToken } from "../utils/tokenLists";
+
+interface ImportTokenProps {
+  // Tokens from the network config, to catch duplicates and look-alikes
+  listedTokens: Record<string, string>;
+  onImported: (tokenAddress: string) => void;
+}
+
+// Lets the user add any ERC-20 by address. Imported tokens are kept per
+// chain and show up next to the configured ones everywhere.
+const ImportToken: React.FC<ImportTokenProps> = ({
+  listedTokens,
+  onImported,
+}) => {
+  const { chainId, activeAddress } = useWeb3();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const imported = useSyncExternalStore(subscribeImportedTokens, () =>
+    getImportedTokens(chainId),
+  );
+  const listedInfos = useTokensInfo(Object.values(listedTokens));
+  const importedInfos = useTokensInfo(imported);
+
+  const candidate = isAddress(input.trim()) ? getAddress(input.trim()) : null;
+  const alreadyListed =
+    !!candidate &&
+    [...Object.values(listedTokens), ...imported].some(
+      (address) => address.toLowerCase() === candidate.toLowerCase(),
+    );
+  const probe = candidate && !alreadyListed ? candidate : null;
+
+  // Reading metadata and a balanceOf is what makes it "behave like ERC-20";
+  // without a connected address the zero address is probed instead
+  const { tokenInfo, loading: infoLoading, error: infoError } = useERC20(probe);
+  const balance = useERC20Balance(probe, activeAddress ?? ZeroAddress);
+
+  const verifying = !!probe && (infoLoading || balance.loading);
+  const failure = infoError ?? balance.error;
+  const verified = !!probe && !!tokenInfo && !verifying && !failure;
+
+  const listed = getListedToken(chainId, probe);
+  const lookAlike = tokenInfo
+    ? Object.entries(listedTokens).find(
+        ([name, address]) =>
+          (listedInfos[address]?.symbol ?? name).toLowerCase() ===
+          tokenInfo.symbol.toLowerCase(),
+      )
+    : undefined;
+
+  const reset = () => {
+    setInput("");
+    setAcknowledged(false);
+  };
+
+  const handleImport = () => {
+    if (!chainId || !probe || !tokenInfo || !verified || !acknowledged) {
+      return;
+    }
+
+    importToken(chainId, probe);
+    console.log(`📥 Imported token ${tokenInfo.symbol} (${probe})`);
+    onImported(probe);
+    reset();
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="mt-2 text-xs font-semibold text-purple-600 hover:text-purple-800"
+      >
+        + Import token
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-white p-4 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="font-medium text-gray-700">Import token</span>
+        <button
+          type="button"
+          onClick={() => {
+            reset();
+            setOpen(false);
+          }}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setAcknowledged(false);
+        }}
+        // Enter would otherwise submit the surrounding transfer form
+        onKeyDown={(e) => e.key === "Enter" && e.preventDefault()}
+        placeholder="Token contract address 0x..."
+        className="w-full p-2 border rounded-lg font-mono text-sm"
+      />
+
+      {input.trim() && !candidate && (
+        <p className="text-xs text-red-600">Not a valid address</p>
+      )}
+      {alreadyListed && (
+        <p className="text-xs text-gray-500">
+          This token is already in your token list
+        </p>
+      )}
+      {verifying && (
+        <p className="text-xs text-gray-400 animate-pulse">
+          Checking the contract...
+        </p>
+      )}
+      {probe && failure && (
+        <p className="text-xs text-red-600">
+          This address does not behave like an ERC-20 token:{" "}
+          {failure.userMessage}
+        </p>
+      )}
+
+      {verified && tokenInfo && (
+        <>
+          <dl className="space-y-1">
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Name</dt>
+              <dd className="font-semibold">{tokenInfo.name}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Symbol</dt>
+              <dd className="font-semibold">{tokenInfo.symbol}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Decimals</dt>
+              <dd>{tokenInfo.decimals}</dd>
+            </div>
+            {activeAddress && (
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Your balance</dt>
+                <dd>{balance.balanceDisplay}</dd>
+              </div>
+            )}
+          </dl>
+
+          <div className="bg-yellow-50 border-l-4 border-yellow-500 p-3 rounded text-xs text-yellow-800 space-y-1">
+            <p>
+              ⚠️ This token is not one of the tokens configured for this
+              network. Anyone can deploy a token with any name and symbol,
+              including copies of real ones.
+            </p>
+            {listed && (
+              <p>It is included in the "{listed.listName}" token list.</p>
+            )}
+            {tokenInfo.symbol === "UNKNOWN" && (
+              <p>The contract does not report a symbol.</p>
+            )}
+            {lookAlike && (
+              <p className="font-semibold">
+                It uses the same symbol as the listed {tokenInfo.symbol} at{" "}
+                {shortenAddress(lookAlike[1])} and may be an imitation.
+              </p>
+            )}
+          </div>
+
+          <label className="flex items-start gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="mt-0.5"
+            />
+            I have checked this contract address and understand the risks
+          </label>
+
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!acknowledged}
+            className="w-full py-2 bg-purple-600 text-white rounded-lg text-sm font-semibold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {tokenInfo.symbol}
+          </button>
+        </>
+      )}
+
+      {imported.length > 0 && chainId && (
+        <div className="border-t pt-3">
+          <div className="text-xs text-gray-500 mb-1">Imported tokens</div>
+          <ul className="space-y-1">
+            {imported.map((address) => (
+              <li
+                key={address}
+                className="flex justify-between items-center text-xs"
+              >
+                <span>
+                  {importedInfos[address]?.symbol ?? "..."}{" "}
+                  <span className="font-mono text-gray-400">
+                    {shortenAddress(address)}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeImportedToken(chainId, address)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportToken;
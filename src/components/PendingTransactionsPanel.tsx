@@ -0,0 +1,120 @@
+import React from "react";
+import { useWeb3 } from "../hooks/useWeb3";
+import { useTokensInfo } from "../hooks/useERC20";
+import { useTransactions } from "../hooks/useTransactions";
+import { shortenAddress } from "../utils/format";
+import type {
+  TransactionKind,
+  TransactionStatus,
+} from "../utils/transactionManager";
+
+// Confirmations after which a transaction is considered settled
+const TARGET_CONFIRMATIONS = 3;
+
+const KIND_LABELS: Record<TransactionKind, string> = {
+  approve: "Approve",
+  deposit: "Deposit",
+  withdraw: "Withdraw",
+  transfer: "Transfer",
+  transferETH: "ETH Transfer",
+  addToken: "Add Token",
+  removeToken: "Remove Token",
+  pause: "Pause Vault",
+  unpause: "Unpause Vault",
+  emergencyWithdraw: "Emergency Withdraw",
+};
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  confirmed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  replaced: "bg-yellow-100 text-yellow-800",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+const PendingTransactionsPanel: React.FC = () => {
+  const { network } = useWeb3();
+  const { transactions, pendingCount, clearFinished } = useTransactions();
+  const tokenInfos = useTokensInfo([
+    ...new Set(transactions.flatMap((tx) => (tx.token ? [tx.token] : []))),
+  ]);
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6 p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900">
+          Transactions
+          {pendingCount > 0 && (
+            <span className="ml-2 text-sm font-medium text-blue-600">
+              {pendingCount} pending
+            </span>
+          )}
+        </h2>
+        <button
+          onClick={clearFinished}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear finished
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {transactions.map((tx) => {
+          const symbol = tx.token
+            ? (tokenInfos[tx.token]?.symbol ?? "")
+            : (network?.nativeCurrency ?? "ETH");
+
+          return (
+            <div
+              key={tx.hash}
+              className="flex items-center justify-between border rounded-lg p-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                {tx.status === "pending" && (
+                  <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                )}
+                <div>
+                  <div className="font-semibold text-gray-900">
+                    {KIND_LABELS[tx.kind]}
+                    {tx.amount && ` ${tx.amount} ${symbol}`}
+                  </div>
+                  <a
+                    href={`${network?.explorerUrl}/tx/${tx.hash}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-mono text-xs text-blue-600 hover:underline"
+                  >
+                    {shortenAddress(tx.hash, 6)}
+                  </a>
+                  {tx.originalHash && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      (sped up)
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="text-right">
+                <span
+                  className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[tx.status]}`}
+                >
+                  {tx.status}
+                </span>
+                {tx.status === "confirmed" &&
+                  tx.confirmations < TARGET_CONFIRMATIONS && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      {tx.confirmations}/{TARGET_CONFIRMATIONS} confirmations
+                    </div>
+                  )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PendingTransactionsPanel;
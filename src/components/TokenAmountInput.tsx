@@ -0,0 +1,105 @@
+import React from "react";
+import {
+  formatAmountInput,
+  formatTokenAmount,
+  type AmountCheck,
+} from "../utils/format";
+
+// Shortcuts that fill a share of the available balance
+const PERCENT_SHORTCUTS = [25n, 50n, 75n, 100n];
+
+interface TokenAmountInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  check: AmountCheck; // from checkTokenAmount with the same decimals/balance
+  decimals: number | null; // null until the token is known
+  available: bigint | null; // null while the balance loads
+  availableLabel: string; // e.g. "Wallet balance"
+  symbol?: string;
+  // Replaces the 100% shortcut, e.g. to keep ETH back for gas
+  onMax?: () => void;
+  disabled?: boolean;
+  accent?: "blue" | "purple";
+}
+
+// Amount field with inline validation and percentage shortcuts. Accepts
+// plain decimal numbers only; exponents and signs are rejected.
+const TokenAmountInput: React.FC<TokenAmountInputProps> = ({
+  value,
+  onChange,
+  check,
+  decimals,
+  available,
+  availableLabel,
+  symbol,
+  onMax,
+  disabled = false,
+  accent = "blue",
+}) => {
+  const canFill = !disabled && decimals !== null && available !== null;
+  const { focus, shortcut } =
+    accent === "purple"
+      ? {
+          focus: "focus:ring-purple-500 focus:border-purple-500",
+          shortcut: "text-purple-600 hover:text-purple-800",
+        }
+      : {
+          focus: "focus:ring-blue-500 focus:border-blue-500",
+          shortcut: "text-blue-600 hover:text-blue-800",
+        };
+
+  const fill = (percent: bigint) => {
+    if (decimals === null || available === null) return;
+    if (percent === 100n && onMax) {
+      onMax();
+      return;
+    }
+    onChange(formatAmountInput((available * percent) / 100n, decimals));
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Amount
+        </label>
+        <div className="flex gap-2">
+          {PERCENT_SHORTCUTS.map((percent) => (
+            <button
+              key={percent}
+              type="button"
+              onClick={() => fill(percent)}
+              disabled={!canFill}
+              className={`text-xs font-semibold ${shortcut} disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {percent === 100n ? "Max" : `${percent}%`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <input
+        type="text"
+        inputMode="decimal"
+        autoComplete="off"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="0.00"
+        aria-invalid={!!check.error}
+        className={`w-full p-3 border rounded-lg focus:ring-2 ${
+          check.error ? "border-red-500 focus:ring-red-500" : focus
+        }`}
+        disabled={disabled}
+      />
+      <div className="mt-1 flex justify-between gap-2 text-xs">
+        <span className="text-red-600">{check.error}</span>
+        {decimals !== null && available !== null && (
+          <span className="text-gray-500 whitespace-nowrap">
+            {availableLabel}: {formatTokenAmount(available, decimals)} {symbol}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TokenAmountInput;
@@ -0,0 +1,114 @@
+import React, { useState, useSyncExternalStore } from "react";
+import {
+  addTokenList,
+  getTokenListStatuses,
+  removeTokenList,
+  subscribeTokenLists,
+} from "../utils/tokenLists";
+import { normalizeError, type NormalizedError } from "../utils/errors";
+
+// Token lists supplying names, decimals, logos and tags. The bundled list
+// is fixed; others can be added by URL.
+const TokenListsPanel: React.FC = () => {
+  const statuses = useSyncExternalStore(
+    subscribeTokenLists,
+    getTokenListStatuses,
+  );
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<NormalizedError | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setAdding(true);
+      setError(null);
+      await addTokenList(url);
+      setUrl("");
+    } catch (err) {
+      console.error("Failed to add token list:", err);
+      setError(normalizeError(err, "Failed to add token list"));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-6 p-6">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center"
+      >
+        <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <span>📚</span> Token Lists
+          <span className="text-sm font-medium text-gray-500">
+            ({statuses.length})
+          </span>
+        </h2>
+        <span className="text-sm text-gray-500">{open ? "Hide" : "Show"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <ul className="space-y-2">
+            {statuses.map((status) => (
+              <li
+                key={status.source}
+                className="flex justify-between items-center border rounded-lg p-3 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-semibold text-gray-900">
+                    {status.name ?? "Unnamed list"}
+                    {status.loading && (
+                      <span className="ml-2 text-xs text-gray-400 animate-pulse">
+                        Updating...
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {status.source === "bundled"
+                      ? "Bundled with the app"
+                      : status.source}{" "}
+                    · {status.tokenCount} tokens
+                  </div>
+                  {status.error && (
+                    <div className="text-xs text-red-600">{status.error}</div>
+                  )}
+                </div>
+                {status.source !== "bundled" && (
+                  <button
+                    onClick={() => removeTokenList(status.source)}
+                    className="ml-4 text-xs text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://tokens.uniswap.org"
+              className="flex-1 p-2 border rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!url || adding}
+              className="px-4 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {adding ? "Adding..." : "Add list"}
+            </button>
+          </form>
+          {error && <p className="text-xs text-red-600">{error.userMessage}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenListsPanel;
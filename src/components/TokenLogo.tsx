@@ -0,0 +1,37 @@
+import React, { useState } from "react";
+import type { TokenInfo } from "../hooks/useERC20";
+
+interface TokenLogoProps {
+  token: TokenInfo;
+  className?: string;
+}
+
+// Token list logo, or the symbol on a gradient when there is none or it
+// fails to load
+const TokenLogo: React.FC<TokenLogoProps> = ({
+  token,
+  className = "w-12 h-12",
+}) => {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+
+  if (token.logoURI && token.logoURI !== failedUrl) {
+    return (
+      <img
+        src={token.logoURI}
+        alt={token.symbol}
+        onError={() => setFailedUrl(token.logoURI ?? null)}
+        className={`${className} rounded-full shadow-md bg-white object-contain`}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`${className} rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center shadow-md`}
+    >
+      <span className="font-bold text-white text-base">{token.symbol}</span>
+    </div>
+  );
+};
+
+export default TokenLogo;
@@ -0,0 +1,32 @@
+import React from "react";
+import { toUsdValue, type PriceQuote } from "../utils/prices";
+import { formatUsd } from "../utils/format";
+
+interface UsdValueProps {
+  amountRaw: bigint;
+  decimals: number;
+  quote: PriceQuote | undefined;
+  className?: string;
+}
+
+// "≈ $1,234.56" for a token amount; nothing when the token has no price
+const UsdValue: React.FC<UsdValueProps> = ({
+  amountRaw,
+  decimals,
+  quote,
+  className = "text-xs text-gray-500",
+}) => {
+  if (!quote) return null;
+
+  const updated = new Date(quote.updatedAt * 1000).toLocaleString();
+  return (
+    <span className={className} title={`Price updated ${updated}`}>
+      ≈ {formatUsd(toUsdValue(amountRaw, decimals, quote))}
+      {quote.stale && (
+        <span className="ml-1 text-amber-600 font-medium">(stale price)</span>
+      )}
+    </span>
+  );
+};
+
+export default UsdValue;
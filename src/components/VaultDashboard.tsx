@@ -1,20 +1,68 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useSyncExternalStore } from "react";
 import { useWeb3, SUPPORTED_NETWORKS } from "../hooks/useWeb3";
 import {
   useERC20,
   useERC20Balance,
   useERC20Transfer,
+  useTokensInfo,
+  useWalletBalances,
+  type MaxETHAmount,
   type TokenInfo,
 } from "../hooks/useERC20";
-import { useVault, type VaultBalance } from "../hooks/useVault";
-import { shortenAddress } from "../utils/format";
-import { getContractAddresses } from "../contracts/addresses";
-import { formatEther } from "ethers";
+import {
+  useVault,
+  type ApprovalMode,
+  type DepositStep,
+  type VaultBalance,
+} from "../hooks/useVault";
+import {
+  checkTokenAmount,
+  formatAmountInput,
+  formatTokenAmount,
+  formatTokenLabel,
+  formatUsd,
+  shortenAddress,
+  type AmountCheck,
+} from "../utils/format";
+import { getLastConnector } from "../connectors";
+import PendingTransactionsPanel from "./PendingTransactionsPanel";
+import FeePreview from "./FeePreview";
+import ActivityTab from "./ActivityTab";
+import AdminPanel from "./AdminPanel";
+import ImportToken from "./ImportToken";
+import TokenLogo from "./TokenLogo";
+import TokenListsPanel from "./TokenListsPanel";
+import TokenAmountInput from "./TokenAmountInput";
+import UsdValue from "./UsdValue";
+import { useFeeEstimate, type FeeEstimate } from "../hooks/useFeeEstimate";
+import { useEnsName, useRecipient, type Recipient } from "../hooks/useEns";
+import { usePrices } from "../hooks/usePrices";
+import {
+  useRecipientChecks,
+  type RecipientChecks,
+} from "../hooks/useRecipientChecks";
+import type { FeeTier } from "../utils/fees";
+import { normalizeError, type NormalizedError } from "../utils/errors";
+import { fetchTokenInfo } from "../utils/tokenRegistry";
+import { sumUsdValue, type UsdTotal } from "../utils/prices";
+import {
+  getImportedTokens,
+  subscribeImportedTokens,
+} from "../utils/importedTokens";
+import {
+  NATIVE_ASSET,
+  getContractAddresses,
+  getNetworkConfigErrors,
+} from "../contracts/addresses";
 
 const VaultDashboard: React.FC = () => {
   const {
-    account,
+    activeAddress,
+    readProvider,
     isConnected,
+    isReadOnly,
+    setWatchAddress,
+    connectors,
     connectWallet,
     chainId,
     network,
@@ -22,56 +70,248 @@ const VaultDashboard: React.FC = () => {
   } = useWeb3();
 
   const {
+    vaultAddress,
+    vaultUnconfigured,
     isPaused,
     getAllBalances,
     deposit,
+    depositStep,
     withdraw,
+    estimateDeposit,
+    estimateWithdraw,
+    isOwner,
+    vaultTokens,
+    rejectedTokens,
+    addSupportedToken,
+    removeSupportedToken,
+    pauseVault,
+    unpauseVault,
+    emergencyWithdraw,
     loading: vaultLoading,
   } = useVault();
 
   const {
     transfer,
     transferETH,
+    estimateTransfer,
+    estimateTransferETH,
+    getMaxETHAmount,
     loading: transferLoading,
     error: transferError,
     success: transferSuccess,
   } = useERC20Transfer();
 
-  const [activeTab, setActiveTab] = useState<"vault" | "transfer">("vault");
+  const [activeTab, setActiveTab] = useState<"vault" | "transfer" | "activity">(
+    "vault",
+  );
   const [selectedToken, setSelectedToken] = useState<string>("");
   const [depositAmount, setDepositAmount] = useState<string>("");
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>("exact");
   const [withdrawAmount, setWithdrawAmount] = useState<string>("");
   const [transferAmount, setTransferAmount] = useState<string>("");
   const [transferToAddress, setTransferToAddress] = useState<string>("");
   const [transferType, setTransferType] = useState<"token" | "eth">("token");
   const [vaultBalances, setVaultBalances] = useState<VaultBalance[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<NormalizedError | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [watchInput, setWatchInput] = useState<string>("");
+  const [feeTier, setFeeTier] = useState<FeeTier>("normal");
+  // ENS recipient awaiting confirmation of the address it resolved to
+  const [confirmingRecipient, setConfirmingRecipient] = useState<{
+    ensName: string;
+    address: string;
+  } | null>(null);
+  // Last Max ETH result; sent with its own gas reserve while still in use
+  const [maxEth, setMaxEth] = useState<(MaxETHAmount & { to: string }) | null>(
+    null,
+  );
+
+  const recipient = useRecipient(transferToAddress);
+  const activeEnsName = useEnsName(activeAddress);
 
   // Get supported tokens based on network
-  const supportedTokens = chainId
+  const configuredTokens: Record<string, string> = chainId
     ? getContractAddresses(chainId).supportedTokens
     : {};
+  const importedTokens = useSyncExternalStore(subscribeImportedTokens, () =>
+    getImportedTokens(chainId),
+  );
+  // Imported tokens are labelled by their symbol once the registry has it
+  const supportedTokens: Record<string, string> = {
+    ...configuredTokens,
+    ...Object.fromEntries(
+      importedTokens.map((address) => [shortenAddress(address), address]),
+    ),
+  };
+
+  const recipientChecks = useRecipientChecks({
+    input: transferToAddress,
+    address: recipient.address,
+    token: transferType === "token" ? selectedToken || null : null,
+    vaultAddress: vaultAddress || null,
+    knownContracts: supportedTokens,
+  });
+
+  // Tokens verified against the vault, labelled with their configured name
+  const vaultTokenOptions: Record<string, string> = Object.fromEntries(
+    vaultTokens.map((address) => [
+      Object.entries(configuredTokens).find(
+        ([, configured]) => configured.toLowerCase() === address.toLowerCase(),
+      )?.[0] ?? shortenAddress(address),
+      address,
+    ]),
+  );
+  const vaultTokensKey = vaultTokens.join(",");
+
+  // Portfolio totals: every listed or vault token, plus ETH in the wallet
+  const portfolioTokens = [
+    ...Object.values(supportedTokens),
+    ...vaultTokens.filter(
+      (address) =>
+        !Object.values(supportedTokens).some(
+          (listed) => listed.toLowerCase() === address.toLowerCase(),
+        ),
+    ),
+  ];
+  const portfolioTokenInfos = useTokensInfo(portfolioTokens);
+  const walletBalances = useWalletBalances(portfolioTokens, activeAddress);
+  const prices = usePrices([NATIVE_ASSET, ...portfolioTokens]);
+  const nativeCurrency = network?.nativeCurrency ?? "ETH";
+
+  const vaultTotal = sumUsdValue(
+    vaultBalances.map((balance) => ({
+      asset: balance.tokenAddress,
+      label: balance.symbol,
+      amountRaw: balance.balanceRaw,
+      decimals: balance.decimals,
+    })),
+    prices,
+  );
+  // Tokens whose metadata is still loading are left out until it arrives
+  const walletTotal = sumUsdValue(
+    [
+      {
+        asset: NATIVE_ASSET,
+        label: nativeCurrency,
+        amountRaw: walletBalances.eth ?? 0n,
+        decimals: 18,
+      },
+      ...portfolioTokens.flatMap((address) => {
+        const info = portfolioTokenInfos[address];
+        const amountRaw = walletBalances.tokens[address];
+        return info && amountRaw !== undefined
+          ? [
+              {
+                asset: address,
+                label: info.symbol,
+                amountRaw,
+                decimals: info.decimals,
+              },
+            ]
+          : [];
+      }),
+    ],
+    prices,
+  );
+  const portfolioTotal: UsdTotal = {
+    total: vaultTotal.total + walletTotal.total,
+    unpriced: [...new Set([...vaultTotal.unpriced, ...walletTotal.unpriced])],
+    stale: vaultTotal.stale || walletTotal.stale,
+  };
+
+  // Wallet balance of the selected token, for the deposit/transfer limits
+  const { tokenInfo: selectedTokenInfo } = useERC20(selectedToken || null);
+  const selectedWalletBalance = useERC20Balance(
+    selectedToken || null,
+    activeAddress,
+  );
+  const selectedDecimals = selectedTokenInfo?.decimals ?? null;
+  const selectedWalletAvailable =
+    !selectedToken ||
+    selectedWalletBalance.loading ||
+    selectedWalletBalance.error
+      ? null
+      : selectedWalletBalance.balanceRaw;
+  // Tokens missing from the loaded vault balances have nothing to withdraw
+  const selectedVaultAvailable =
+    !selectedToken || vaultLoading || isLoading
+      ? null
+      : (vaultBalances.find((balance) => balance.tokenAddress === selectedToken)
+          ?.balanceRaw ?? 0n);
+
+  // Amounts are only set once valid, so a set amount can be submitted as is
+  const depositCheck = checkTokenAmount(
+    depositAmount,
+    selectedDecimals,
+    selectedWalletAvailable,
+  );
+  const withdrawCheck = checkTokenAmount(
+    withdrawAmount,
+    selectedDecimals,
+    selectedVaultAvailable,
+  );
+  const transferDecimals = transferType === "eth" ? 18 : selectedDecimals;
+  const transferAvailable =
+    transferType === "eth" ? walletBalances.eth : selectedWalletAvailable;
+  const transferCheck = checkTokenAmount(
+    transferAmount,
+    transferDecimals,
+    transferAvailable,
+  );
+
+  // Fee previews only run for complete inputs on the visible tab
+  const canEstimate =
+    !isReadOnly && !isPaused && !vaultUnconfigured && !!selectedToken;
+  const depositFee = useFeeEstimate(
+    activeTab === "vault" && canEstimate && depositCheck.amount !== null
+      ? `deposit:${activeAddress}:${selectedToken}:${depositCheck.amount}`
+      : null,
+    () => estimateDeposit(selectedToken, depositCheck.amount ?? 0n),
+  );
+  const withdrawFee = useFeeEstimate(
+    activeTab === "vault" && canEstimate && withdrawCheck.amount !== null
+      ? `withdraw:${activeAddress}:${selectedToken}:${withdrawCheck.amount}`
+      : null,
+    () => estimateWithdraw(selectedToken, withdrawCheck.amount ?? 0n),
+  );
+  const transferFee = useFeeEstimate(
+    activeTab === "transfer" &&
+      !isReadOnly &&
+      (transferType === "eth" || !!selectedToken) &&
+      !!recipient.address &&
+      transferCheck.amount !== null
+      ? `${transferType}:${activeAddress}:${selectedToken}:${recipient.address}:${transferCheck.amount}`
+      : null,
+    async () => {
+      const to = recipient.address ?? "";
+      const amount = transferCheck.amount ?? 0n;
+      if (transferType === "eth") {
+        return estimateTransferETH(to, amount);
+      }
+      return estimateTransfer(selectedToken, to, amount);
+    },
+  );
 
-  // Fetch vault balances when account or chain changes
+  // Fetch vault balances when account (or watched address), chain or the
+  // vault's token set changes
   useEffect(() => {
-    if (isConnected && Object.keys(supportedTokens).length > 0) {
+    if (activeAddress && vaultTokensKey) {
       loadVaultBalances();
     }
-  }, [isConnected, chainId]);
+  }, [activeAddress, chainId, vaultTokensKey]);
 
   const loadVaultBalances = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const tokenAddresses = Object.values(supportedTokens) as string[];
-      const balances = await getAllBalances(tokenAddresses);
+      const balances = await getAllBalances(vaultTokens);
       setVaultBalances(balances);
+      walletBalances.refresh();
     } catch (err) {
       console.error("Failed to load vault balances:", err);
-      setError(err instanceof Error ? err.message : "Failed to load balances");
+      setError(normalizeError(err, "Failed to load balances"));
     } finally {
       setIsLoading(false);
     }
@@ -79,109 +319,185 @@ const VaultDashboard: React.FC = () => {
 
   const handleDeposit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedToken || !depositAmount) return;
+    if (!selectedToken || depositCheck.amount === null) return;
 
     try {
       setError(null);
       setSuccessMessage(null);
 
-      await deposit(selectedToken, depositAmount);
-      setSuccessMessage(`✅ Successfully deposited ${depositAmount} tokens!`);
+      await deposit(selectedToken, depositCheck.amount, approvalMode, feeTier);
+      const { symbol } = await getTokenInfo(selectedToken);
+      setSuccessMessage(
+        `✅ Successfully deposited ${depositAmount} ${symbol}!`,
+      );
       setDepositAmount("");
       loadVaultBalances();
     } catch (err) {
       console.error("Deposit error:", err);
-      setError(err instanceof Error ? err.message : "Deposit failed");
+      setError(normalizeError(err, "Deposit failed"));
     }
   };
 
   const handleWithdraw = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedToken || !withdrawAmount) return;
+    if (!selectedToken || withdrawCheck.amount === null) return;
 
     try {
       setError(null);
       setSuccessMessage(null);
 
-      await withdraw(selectedToken, withdrawAmount);
-      setSuccessMessage(`✅ Successfully withdrawn ${withdrawAmount} tokens!`);
+      await withdraw(selectedToken, withdrawCheck.amount, feeTier);
+      const { symbol } = await getTokenInfo(selectedToken);
+      setSuccessMessage(
+        `✅ Successfully withdrawn ${withdrawAmount} ${symbol}!`,
+      );
       setWithdrawAmount("");
       loadVaultBalances();
     } catch (err) {
       console.error("Withdraw error:", err);
-      setError(err instanceof Error ? err.message : "Withdraw failed");
+      setError(normalizeError(err, "Withdraw failed"));
     }
   };
 
-  const handleTransfer = async (e: React.FormEvent) => {
+  const handleTransfer = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!recipient.address || recipientChecks.errors.length > 0) return;
+
+    // Names can be repointed at any time, so the user confirms the exact
+    // address before anything is sent to it
+    if (recipient.ensName) {
+      setConfirmingRecipient({
+        ensName: recipient.ensName,
+        address: recipient.address,
+      });
+      return;
+    }
+    sendTransfer(recipient.address);
+  };
+
+  const handleConfirmRecipient = () => {
+    if (!confirmingRecipient) return;
+    setConfirmingRecipient(null);
+    sendTransfer(confirmingRecipient.address);
+  };
+
+  const sendTransfer = async (to: string) => {
+    const amount = transferCheck.amount;
+    if (amount === null) return;
 
     if (transferType === "eth") {
       // Transfer ETH
-      if (!transferToAddress || !transferAmount) return;
 
       try {
         setError(null);
         setSuccessMessage(null);
 
-        await transferETH(transferToAddress, transferAmount);
+        const reserved =
+          maxEth && maxEth.amount === amount && maxEth.to === to
+            ? maxEth
+            : undefined;
+        await transferETH(to, amount, feeTier, reserved);
         setSuccessMessage(`✅ ETH transfer successful!`);
+        walletBalances.refresh();
         setTransferAmount("");
         setTransferToAddress("");
       } catch (err) {
         console.error("ETH Transfer error:", err);
-        setError(err instanceof Error ? err.message : "ETH Transfer failed");
+        setError(normalizeError(err, "ETH Transfer failed"));
       }
     } else {
       // Transfer Token
-      if (!selectedToken || !transferToAddress || !transferAmount) return;
-
-      const tokenInfo = await getTokenInfo(selectedToken);
-      if (!tokenInfo) return;
+      if (!selectedToken) return;
 
       try {
         setError(null);
         setSuccessMessage(null);
 
-        await transfer(
-          selectedToken,
-          transferToAddress,
-          transferAmount,
-          tokenInfo.decimals,
-        );
+        const tokenInfo = await getTokenInfo(selectedToken);
+        await transfer(selectedToken, to, amount, tokenInfo.decimals, feeTier);
         setSuccessMessage(`✅ ${tokenInfo.symbol} transfer successful!`);
+        walletBalances.refresh();
         setTransferAmount("");
         setTransferToAddress("");
       } catch (err) {
         console.error("Token Transfer error:", err);
-        setError(err instanceof Error ? err.message : "Token Transfer failed");
+        setError(normalizeError(err, "Token Transfer failed"));
       }
     }
   };
 
-  const getTokenInfo = async (
-    tokenAddress: string,
-  ): Promise<TokenInfo | null> => {
-    const { useERC20 } = await import("../hooks/useERC20");
-    const { tokenInfo } = useERC20(tokenAddress);
-    return tokenInfo;
+  // Max for ETH keeps enough back to pay for the transfer's gas
+  const handleTransferMaxETH = async () => {
+    try {
+      const to = recipient.address ?? "";
+      const max = await getMaxETHAmount(to, feeTier);
+      setMaxEth({ ...max, to });
+      setTransferAmount(formatAmountInput(max.amount, 18));
+    } catch (err) {
+      console.error("Failed to compute max ETH amount:", err);
+      setError(normalizeError(err, "Failed to compute max amount"));
+    }
   };
 
-  const handleConnectWallet = async () => {
+  // Owner operations report through the shared banners; resolves to whether
+  // the action succeeded so the admin forms know when to reset
+  const runAdminAction = async (
+    action: () => Promise<void>,
+    successText: string,
+    fallback: string,
+  ): Promise<boolean> => {
     try {
-      await connectWallet();
+      setError(null);
+      setSuccessMessage(null);
+
+      await action();
+      setSuccessMessage(`✅ ${successText}`);
+      return true;
+    } catch (err) {
+      console.error("Admin action error:", err);
+      setError(normalizeError(err, fallback));
+      return false;
+    }
+  };
+
+  const getTokenInfo = async (tokenAddress: string): Promise<TokenInfo> => {
+    if (!readProvider || !chainId) throw new Error("Wallet not connected");
+    return fetchTokenInfo(readProvider, chainId, tokenAddress);
+  };
+
+  const handleConnectWallet = async (connectorId?: string) => {
+    try {
+      setError(null);
+      await connectWallet(connectorId);
     } catch (err) {
       console.error("Connection error:", err);
-      setError(err instanceof Error ? err.message : "Failed to connect wallet");
+      setError(normalizeError(err, "Failed to connect wallet"));
     }
   };
 
+  const handleWatchAddress = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError(null);
+      setWatchAddress(watchInput.trim());
+    } catch (err) {
+      setError(normalizeError(err, "Invalid address"));
+    }
+  };
+
+  const handleStopWatching = () => {
+    setWatchAddress(null);
+    setWatchInput("");
+    setVaultBalances([]);
+  };
+
   const handleSwitchNetwork = async (targetChainId: number) => {
     try {
       await switchNetwork(targetChainId);
     } catch (err) {
       console.error("Failed to switch network:", err);
-      setError(err instanceof Error ? err.message : "Failed to switch network");
+      setError(normalizeError(err, "Failed to switch network"));
     }
   };
 
@@ -220,8 +536,14 @@ const VaultDashboard: React.FC = () => {
 
   // Network Details Panel Component
   const NetworkDetailsPanel: React.FC = () => {
-    const { account, chainId, network, provider } = useWeb3();
+    const {
+      activeAddress: account,
+      chainId,
+      network,
+      readProvider: provider,
+    } = useWeb3();
     const [networkDetailsInfo, setNetworkDetailsInfo] = useState<any>(null);
+    const { [NATIVE_ASSET]: ethQuote } = usePrices([NATIVE_ASSET]);
 
     useEffect(() => {
       const fetchNetworkDetailsInfo = async () => {
@@ -235,7 +557,8 @@ const VaultDashboard: React.FC = () => {
             account,
             chainId,
             networkName: network?.name,
-            ethBalance: parseFloat(formatEther(ethBalance)).toFixed(6),
+            ethBalance: formatTokenAmount(ethBalance, 18),
+            ethBalanceRaw: ethBalance,
             timestamp: new Date().toISOString(),
           });
         } catch (err) {
@@ -269,7 +592,12 @@ const VaultDashboard: React.FC = () => {
             </div>
             <div>
               <span className="font-medium">ETH Balance:</span>{" "}
-              {networkDetailsInfo.ethBalance} ETH
+              {networkDetailsInfo.ethBalance} ETH{" "}
+              <UsdValue
+                amountRaw={networkDetailsInfo.ethBalanceRaw}
+                decimals={18}
+                quote={ethQuote}
+              />
             </div>
             <div>
               <span className="font-medium">Timestamp:</span>{" "}
@@ -281,7 +609,9 @@ const VaultDashboard: React.FC = () => {
     );
   };
 
-  if (!isConnected) {
+  if (!activeAddress) {
+    const lastConnector = getLastConnector();
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="bg-white p-8 rounded-lg shadow-lg max-w-md w-full">
@@ -291,17 +621,77 @@ const VaultDashboard: React.FC = () => {
           <p className="text-gray-600 mb-6 text-center">
             Connect your wallet to access the vault and transfer tokens
           </p>
-          <button
-            onClick={handleConnectWallet}
-            className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition"
+          {connectors.length > 0 ? (
+            <div className="space-y-3">
+              {connectors.map((connector) => (
+                <button
+                  key={connector.id}
+                  onClick={() => handleConnectWallet(connector.id)}
+                  className="w-full flex items-center gap-3 p-3 border rounded-lg font-semibold hover:bg-gray-50 transition"
+                >
+                  {connector.icon ? (
+                    <img
+                      src={connector.icon}
+                      alt=""
+                      className="w-8 h-8 rounded"
+                    />
+                  ) : (
+                    <div className="w-8 h-8 rounded bg-gradient-to-br from-purple-500 to-blue-500" />
+                  )}
+                  <span className="flex-1 text-left">{connector.name}</span>
+                  {connector.id === lastConnector && (
+                    <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                      Last used
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => handleConnectWallet()}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 transition"
+            >
+              Connect MetaMask
+            </button>
+          )}
+          {/* Read-only mode */}
+          <form
+            onSubmit={handleWatchAddress}
+            className="mt-6 pt-6 border-t space-y-3"
           >
-            Connect MetaMask
-          </button>
+            <label className="block text-sm font-medium text-gray-700">
+              Or inspect any address (read-only)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={watchInput}
+                onChange={(e) => setWatchInput(e.target.value)}
+                placeholder="0x..."
+                className="flex-1 p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+              <button
+                type="submit"
+                disabled={!watchInput.trim()}
+                className="px-4 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                View
+              </button>
+            </div>
+          </form>
+          {error && (
+            <p className="mt-4 text-sm text-red-600 text-center">
+              {error.userMessage}
+            </p>
+          )}
         </div>
       </div>
     );
   }
 
+  const bannerError = error ?? transferError;
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-6xl mx-auto px-4">
@@ -315,10 +705,29 @@ const VaultDashboard: React.FC = () => {
               <p className="text-gray-600 mt-1">Manage your assets securely</p>
             </div>
             <div className="text-right">
-              <div className="text-sm text-gray-500">Connected:</div>
-              <div className="font-mono font-semibold">
-                {shortenAddress(account!)}
+              <div className="text-sm text-gray-500">
+                {isConnected ? "Connected:" : "Viewing (read-only):"}
+              </div>
+              {activeEnsName && (
+                <div className="font-semibold">{activeEnsName}</div>
+              )}
+              <div
+                className={
+                  activeEnsName
+                    ? "font-mono text-xs text-gray-500"
+                    : "font-mono font-semibold"
+                }
+              >
+                {shortenAddress(activeAddress)}
               </div>
+              {!isConnected && (
+                <button
+                  onClick={handleStopWatching}
+                  className="mt-1 text-xs text-blue-600 hover:underline"
+                >
+                  Connect a wallet instead
+                </button>
+              )}
             </div>
           </div>
 
@@ -343,6 +752,56 @@ const VaultDashboard: React.FC = () => {
             <NetworkDetailsPanel />
           </div>
 
+          {/* Portfolio value, from Chainlink USD prices */}
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <PortfolioStat
+              label="Vault value"
+              value={vaultTotal}
+              loading={vaultLoading || isLoading}
+            />
+            <PortfolioStat
+              label="Wallet value"
+              value={walletTotal}
+              loading={walletBalances.loading}
+            />
+            <PortfolioStat
+              label="Total portfolio"
+              value={portfolioTotal}
+              loading={vaultLoading || isLoading || walletBalances.loading}
+              highlight
+            />
+          </div>
+
+          {isReadOnly && (
+            <div className="mt-4 bg-gray-100 border-l-4 border-gray-500 p-4 rounded">
+              <p className="text-gray-700 font-semibold">
+                👀 Read-only mode: connect a wallet to deposit, withdraw or
+                transfer
+              </p>
+            </div>
+          )}
+
+          {vaultUnconfigured && (
+            <div className="mt-4 bg-red-50 border-l-4 border-red-500 p-4 rounded">
+              <p className="text-red-700 font-semibold">
+                🚫 The vault is not available on this network:{" "}
+                {vaultUnconfigured}
+              </p>
+              {getNetworkConfigErrors().length > 0 && (
+                <details className="mt-2 text-xs text-red-700">
+                  <summary className="cursor-pointer">
+                    Network config problems
+                  </summary>
+                  <ul className="mt-1 font-mono break-all list-disc pl-4">
+                    {getNetworkConfigErrors().map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
           {isPaused && (
             <div className="mt-4 bg-yellow-100 border-l-4 border-yellow-500 p-4 rounded">
               <p className="text-yellow-700 font-semibold">
@@ -352,10 +811,117 @@ const VaultDashboard: React.FC = () => {
           )}
         </div>
 
+        {/* Submitted transactions, persisted across reloads */}
+        <PendingTransactionsPanel />
+
+        {/* Token metadata sources */}
+        <TokenListsPanel />
+
+        {/* Owner-only operations */}
+        {isOwner && (
+          <AdminPanel
+            supportedTokens={vaultTokenOptions}
+            vaultAddress={vaultAddress}
+            isPaused={isPaused}
+            loading={vaultLoading}
+            onAddToken={(token) =>
+              runAdminAction(
+                () => addSupportedToken(token, feeTier),
+                "Token added to the vault",
+                "Failed to add token",
+              )
+            }
+            onRemoveToken={(token) =>
+              runAdminAction(
+                () => removeSupportedToken(token, feeTier),
+                "Token removed from the vault",
+                "Failed to remove token",
+              )
+            }
+            onPause={() =>
+              runAdminAction(
+                () => pauseVault(feeTier),
+                "Vault paused",
+                "Failed to pause vault",
+              )
+            }
+            onUnpause={() =>
+              runAdminAction(
+                () => unpauseVault(feeTier),
+                "Vault unpaused",
+                "Failed to unpause vault",
+              )
+            }
+            onEmergencyWithdraw={(token, amountRaw, recipient) =>
+              runAdminAction(
+                () => emergencyWithdraw(token, amountRaw, recipient, feeTier),
+                "Emergency withdrawal sent",
+                "Emergency withdrawal failed",
+              )
+            }
+          />
+        )}
+
+        {/* ENS recipient confirmation */}
+        {confirmingRecipient && (
+          <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+              <h3 className="text-lg font-bold text-gray-900 mb-2">
+                Confirm recipient
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                <span className="font-semibold">
+                  {confirmingRecipient.ensName}
+                </span>{" "}
+                currently resolves to:
+              </p>
+              <p className="font-mono text-sm break-all bg-gray-50 border rounded-lg p-3 mb-6">
+                {confirmingRecipient.address}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setConfirmingRecipient(null)}
+                  className="flex-1 py-2 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmRecipient}
+                  className="flex-1 py-2 bg-purple-600 text-white rounded-lg text-sm font-semibold hover:bg-purple-700"
+                >
+                  Send to this address
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Error & Success Messages */}
-        {(error || transferError) && (
-          <div className="mb-4 bg-red-100 border-l-4 border-red-500 p-4 rounded">
-            <p className="text-red-700 font-medium">{error || transferError}</p>
+        {bannerError && (
+          <div
+            className={`mb-4 border-l-4 p-4 rounded ${
+              bannerError.kind === "rejected"
+                ? "bg-yellow-50 border-yellow-400"
+                : "bg-red-100 border-red-500"
+            }`}
+          >
+            <p
+              className={`font-medium ${
+                bannerError.kind === "rejected"
+                  ? "text-yellow-800"
+                  : "text-red-700"
+              }`}
+            >
+              {bannerError.userMessage}
+            </p>
+            {bannerError.details !== bannerError.userMessage && (
+              <details className="mt-2 text-xs text-gray-600">
+                <summary className="cursor-pointer">Details</summary>
+                <p className="mt-1 font-mono break-all">
+                  {bannerError.details}
+                </p>
+              </details>
+            )}
           </div>
         )}
 
@@ -391,6 +957,16 @@ const VaultDashboard: React.FC = () => {
               >
                 💸 Transfer
               </button>
+              <button
+                onClick={() => setActiveTab("activity")}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === "activity"
+                    ? "border-gray-700 text-gray-900"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                📜 Activity
+              </button>
             </nav>
           </div>
 
@@ -403,15 +979,31 @@ const VaultDashboard: React.FC = () => {
                 setSelectedToken={setSelectedToken}
                 depositAmount={depositAmount}
                 setDepositAmount={setDepositAmount}
+                approvalMode={approvalMode}
+                setApprovalMode={setApprovalMode}
+                depositStep={depositStep}
                 withdrawAmount={withdrawAmount}
                 setWithdrawAmount={setWithdrawAmount}
-                supportedTokens={supportedTokens}
+                supportedTokens={vaultTokenOptions}
+                rejectedTokens={rejectedTokens}
                 isPaused={isPaused}
+                isReadOnly={isReadOnly}
                 vaultLoading={vaultLoading || isLoading}
+                depositFee={depositFee}
+                withdrawFee={withdrawFee}
+                feeTier={feeTier}
+                setFeeTier={setFeeTier}
+                nativeCurrency={nativeCurrency}
                 onDeposit={handleDeposit}
                 onWithdraw={handleWithdraw}
+                depositCheck={depositCheck}
+                withdrawCheck={withdrawCheck}
+                tokenDecimals={selectedDecimals}
+                tokenSymbol={selectedTokenInfo?.symbol}
+                walletAvailable={selectedWalletAvailable}
+                vaultAvailable={selectedVaultAvailable}
               />
-            ) : (
+            ) : activeTab === "transfer" ? (
               <TransferTabContent
                 selectedToken={selectedToken}
                 setSelectedToken={setSelectedToken}
@@ -419,12 +1011,31 @@ const VaultDashboard: React.FC = () => {
                 setTransferAmount={setTransferAmount}
                 transferToAddress={transferToAddress}
                 setTransferToAddress={setTransferToAddress}
+                recipient={recipient}
+                recipientChecks={recipientChecks}
                 transferType={transferType}
                 setTransferType={setTransferType}
                 supportedTokens={supportedTokens}
+                listedTokens={configuredTokens}
+                isReadOnly={isReadOnly}
                 transferLoading={transferLoading}
+                transferFee={transferFee}
+                feeTier={feeTier}
+                setFeeTier={setFeeTier}
+                nativeCurrency={nativeCurrency}
                 onTransfer={handleTransfer}
+                transferCheck={transferCheck}
+                transferDecimals={transferDecimals}
+                transferAvailable={transferAvailable}
+                tokenSymbol={
+                  transferType === "eth"
+                    ? nativeCurrency
+                    : selectedTokenInfo?.symbol
+                }
+                onTransferMaxETH={handleTransferMaxETH}
               />
+            ) : (
+              <ActivityTab />
             )}
           </div>
         </div>
@@ -433,6 +1044,15 @@ const VaultDashboard: React.FC = () => {
   );
 };
 
+const DEPOSIT_STEP_LABELS: Record<DepositStep, string> = {
+  idle: "Processing...",
+  "checking-allowance": "Checking allowance...",
+  "resetting-allowance": "Resetting allowance...",
+  approving: "Approving...",
+  "signing-permit": "Sign permit in your wallet...",
+  depositing: "Depositing...",
+};
+
 // Vault Tab Content Component
 interface VaultTabContentProps {
   vaultBalances: VaultBalance[];
@@ -440,13 +1060,29 @@ interface VaultTabContentProps {
   setSelectedToken: (token: string) => void;
   depositAmount: string;
   setDepositAmount: (amount: string) => void;
+  approvalMode: ApprovalMode;
+  setApprovalMode: (mode: ApprovalMode) => void;
+  depositStep: DepositStep;
   withdrawAmount: string;
   setWithdrawAmount: (amount: string) => void;
   supportedTokens: Record<string, string>;
+  rejectedTokens: string[]; // listed, but the vault refuses deposits
   isPaused: boolean;
+  isReadOnly: boolean;
   vaultLoading: boolean;
+  depositFee: FeeEstimate;
+  withdrawFee: FeeEstimate;
+  feeTier: FeeTier;
+  setFeeTier: (tier: FeeTier) => void;
+  nativeCurrency: string;
   onDeposit: (e: React.FormEvent) => void;
   onWithdraw: (e: React.FormEvent) => void;
+  depositCheck: AmountCheck;
+  withdrawCheck: AmountCheck;
+  tokenDecimals: number | null;
+  tokenSymbol?: string;
+  walletAvailable: bigint | null; // limit for deposits
+  vaultAvailable: bigint | null; // limit for withdrawals
 }
 
 const VaultTabContent: React.FC<VaultTabContentProps> = ({
@@ -455,14 +1091,37 @@ const VaultTabContent: React.FC<VaultTabContentProps> = ({
   setSelectedToken,
   depositAmount,
   setDepositAmount,
+  approvalMode,
+  setApprovalMode,
+  depositStep,
   withdrawAmount,
   setWithdrawAmount,
   supportedTokens,
+  rejectedTokens,
   isPaused,
+  isReadOnly,
   vaultLoading,
+  depositFee,
+  withdrawFee,
+  feeTier,
+  setFeeTier,
+  nativeCurrency,
   onDeposit,
   onWithdraw,
+  depositCheck,
+  withdrawCheck,
+  tokenDecimals,
+  tokenSymbol,
+  walletAvailable,
+  vaultAvailable,
 }) => {
+  const tokenInfos = useTokensInfo(Object.values(supportedTokens));
+  const isRejected = (address: string) =>
+    rejectedTokens.some(
+      (rejected) => rejected.toLowerCase() === address.toLowerCase(),
+    );
+  const selectedIsRejected = !!selectedToken && isRejected(selectedToken);
+
   return (
     <>
       {/* Vault Balances */}
@@ -491,6 +1150,23 @@ const VaultTabContent: React.FC<VaultTabContentProps> = ({
         )}
       </div>
 
+      {/* Configured tokens the vault contract does not accept */}
+      {rejectedTokens.length > 0 && (
+        <div className="mb-6 bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
+          <p className="text-sm text-yellow-800">
+            ⚠️ The vault does not accept{" "}
+            {rejectedTokens
+              .map(
+                (address) =>
+                  tokenInfos[address]?.symbol ?? shortenAddress(address),
+              )
+              .join(", ")}
+            . Deposits of these tokens are disabled; existing balances can still
+            be withdrawn.
+          </p>
+        </div>
+      )}
+
       {/* Deposit & Withdraw Forms */}
       <div className="grid md:grid-cols-2 gap-6">
         {/* Deposit Form */}
@@ -511,40 +1187,87 @@ const VaultTabContent: React.FC<VaultTabContentProps> = ({
               >
                 <option value="">Select Token</option>
                 {Object.entries(supportedTokens).map(([name, address]) => (
-                  <option key={address} value={address}>
-                    {name}
+                  <option
+                    key={address}
+                    value={address}
+                    disabled={isRejected(address)}
+                  >
+                    {formatTokenLabel(tokenInfos[address], name)}
+                    {isRejected(address) && " (not accepted)"}
                   </option>
                 ))}
               </select>
+              {selectedIsRejected && (
+                <p className="mt-1 text-xs text-red-600">
+                  The vault does not accept deposits of this token
+                </p>
+              )}
             </div>
 
+            <TokenAmountInput
+              value={depositAmount}
+              onChange={setDepositAmount}
+              check={depositCheck}
+              decimals={tokenDecimals}
+              available={walletAvailable}
+              availableLabel="Wallet balance"
+              symbol={tokenSymbol}
+              disabled={isPaused}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Amount
+                Approval
               </label>
-              <input
-                type="number"
-                value={depositAmount}
-                onChange={(e) => setDepositAmount(e.target.value)}
-                placeholder="0.00"
-                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                disabled={isPaused}
-                min="0"
-                step="any"
-              />
+              <div className="flex gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="approvalMode"
+                    checked={approvalMode === "exact"}
+                    onChange={() => setApprovalMode("exact")}
+                  />
+                  Exact amount
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="approvalMode"
+                    checked={approvalMode === "unlimited"}
+                    onChange={() => setApprovalMode("unlimited")}
+                  />
+                  Unlimited
+                </label>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Approval is skipped when the current allowance already covers
+                the deposit, or replaced by a signature for permit tokens
+              </p>
             </div>
 
+            <FeePreview
+              estimate={depositFee}
+              feeTier={feeTier}
+              onFeeTierChange={setFeeTier}
+              nativeCurrency={nativeCurrency}
+            />
+
             <button
               type="submit"
               disabled={
-                !selectedToken || !depositAmount || isPaused || vaultLoading
+                !selectedToken ||
+                depositCheck.amount === null ||
+                selectedIsRejected ||
+                isPaused ||
+                isReadOnly ||
+                vaultLoading
               }
               className="w-full bg-green-600 text-white py-3 rounded-lg font-semibold hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {vaultLoading ? (
                 <>
                   <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  Processing...
+                  {DEPOSIT_STEP_LABELS[depositStep]}
                 </>
               ) : (
                 "Deposit"
@@ -572,32 +1295,38 @@ const VaultTabContent: React.FC<VaultTabContentProps> = ({
                 <option value="">Select Token</option>
                 {Object.entries(supportedTokens).map(([name, address]) => (
                   <option key={address} value={address}>
-                    {name}
+                    {formatTokenLabel(tokenInfos[address], name)}
                   </option>
                 ))}
               </select>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Amount
-              </label>
-              <input
-                type="number"
-                value={withdrawAmount}
-                onChange={(e) => setWithdrawAmount(e.target.value)}
-                placeholder="0.00"
-                className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                disabled={isPaused}
-                min="0"
-                step="any"
-              />
-            </div>
+            <TokenAmountInput
+              value={withdrawAmount}
+              onChange={setWithdrawAmount}
+              check={withdrawCheck}
+              decimals={tokenDecimals}
+              available={vaultAvailable}
+              availableLabel="Vault balance"
+              symbol={tokenSymbol}
+              disabled={isPaused}
+            />
+
+            <FeePreview
+              estimate={withdrawFee}
+              feeTier={feeTier}
+              onFeeTierChange={setFeeTier}
+              nativeCurrency={nativeCurrency}
+            />
 
             <button
               type="submit"
               disabled={
-                !selectedToken || !withdrawAmount || isPaused || vaultLoading
+                !selectedToken ||
+                withdrawCheck.amount === null ||
+                isPaused ||
+                isReadOnly ||
+                vaultLoading
               }
               className="w-full bg-red-600 text-white py-3 rounded-lg font-semibold hover:bg-red-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
@@ -625,11 +1354,24 @@ interface TransferTabContentProps {
   setTransferAmount: (amount: string) => void;
   transferToAddress: string;
   setTransferToAddress: (address: string) => void;
+  recipient: Recipient;
+  recipientChecks: RecipientChecks;
   transferType: "token" | "eth";
   setTransferType: (type: "token" | "eth") => void;
   supportedTokens: Record<string, string>;
+  listedTokens: Record<string, string>;
+  isReadOnly: boolean;
   transferLoading: boolean;
+  transferFee: FeeEstimate;
+  feeTier: FeeTier;
+  setFeeTier: (tier: FeeTier) => void;
+  nativeCurrency: string;
   onTransfer: (e: React.FormEvent) => void;
+  transferCheck: AmountCheck;
+  transferDecimals: number | null;
+  transferAvailable: bigint | null;
+  tokenSymbol?: string;
+  onTransferMaxETH: () => void;
 }
 
 const TransferTabContent: React.FC<TransferTabContentProps> = ({
@@ -639,12 +1381,33 @@ const TransferTabContent: React.FC<TransferTabContentProps> = ({
   setTransferAmount,
   transferToAddress,
   setTransferToAddress,
+  recipient,
+  recipientChecks,
   transferType,
   setTransferType,
   supportedTokens,
+  listedTokens,
+  isReadOnly,
   transferLoading,
+  transferFee,
+  feeTier,
+  setFeeTier,
+  nativeCurrency,
   onTransfer,
+  transferCheck,
+  transferDecimals,
+  transferAvailable,
+  tokenSymbol,
+  onTransferMaxETH,
 }) => {
+  const tokenInfos = useTokensInfo(Object.values(supportedTokens));
+  // Warnings are acknowledged per address, so a new one needs a new look
+  const [acknowledgedFor, setAcknowledgedFor] = useState<string | null>(null);
+  const { errors: recipientErrors, warnings: recipientWarnings } =
+    recipientChecks;
+  const warningsAcknowledged =
+    recipientWarnings.length === 0 || acknowledgedFor === recipient.address;
+
   return (
     <>
       <h2 className="text-xl font-bold mb-6 text-purple-600 flex items-center gap-2">
@@ -698,10 +1461,14 @@ const TransferTabContent: React.FC<TransferTabContentProps> = ({
                 <option value="">Select Token</option>
                 {Object.entries(supportedTokens).map(([name, address]) => (
                   <option key={address} value={address}>
-                    {name}
+                    {formatTokenLabel(tokenInfos[address], name)}
                   </option>
                 ))}
               </select>
+              <ImportToken
+                listedTokens={listedTokens}
+                onImported={setSelectedToken}
+              />
             </div>
           )}
 
@@ -714,36 +1481,101 @@ const TransferTabContent: React.FC<TransferTabContentProps> = ({
               type="text"
               value={transferToAddress}
               onChange={(e) => setTransferToAddress(e.target.value)}
-              placeholder="0x..."
+              placeholder="0x... or name.eth"
               className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 font-mono"
               required
             />
+            {recipient.ensName && (
+              <p className="mt-1 text-xs">
+                {recipient.loading ? (
+                  <span className="text-gray-400 animate-pulse">
+                    Resolving {recipient.ensName}...
+                  </span>
+                ) : recipient.error ? (
+                  <span className="text-red-600">
+                    {recipient.error.userMessage}
+                  </span>
+                ) : recipient.notFound ? (
+                  <span className="text-red-600">
+                    {recipient.ensName} does not point to an address
+                  </span>
+                ) : (
+                  <span className="text-gray-600">
+                    → <span className="font-mono">{recipient.address}</span>
+                  </span>
+                )}
+              </p>
+            )}
+
+            {/* Recipient safety checks */}
+            {recipientErrors.map((issue) => (
+              <p
+                key={issue.message}
+                className="mt-2 text-xs text-red-700 bg-red-50 border-l-4 border-red-500 p-2 rounded"
+              >
+                🚫 {issue.message}
+              </p>
+            ))}
+            {recipientWarnings.map((issue) => (
+              <p
+                key={issue.message}
+                className="mt-2 text-xs text-yellow-800 bg-yellow-50 border-l-4 border-yellow-500 p-2 rounded"
+              >
+                ⚠️ {issue.message}
+              </p>
+            ))}
+            {recipientErrors.length === 0 && recipientWarnings.length > 0 && (
+              <label className="mt-2 flex items-start gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={warningsAcknowledged}
+                  onChange={(e) =>
+                    setAcknowledgedFor(
+                      e.target.checked ? recipient.address : null,
+                    )
+                  }
+                  className="mt-0.5"
+                />
+                I have checked the recipient and want to send anyway
+              </label>
+            )}
           </div>
 
           {/* Amount */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Amount
-            </label>
-            <input
-              type="number"
-              value={transferAmount}
-              onChange={(e) => setTransferAmount(e.target.value)}
-              placeholder="0.00"
-              className="w-full p-3 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-              required
-              min="0"
-              step="any"
-            />
-          </div>
+          <TokenAmountInput
+            value={transferAmount}
+            onChange={setTransferAmount}
+            check={transferCheck}
+            decimals={transferDecimals}
+            available={transferAvailable}
+            availableLabel="Wallet balance"
+            symbol={tokenSymbol}
+            // Max for ETH leaves room for gas, which needs a signer
+            onMax={
+              transferType === "eth" && !isReadOnly
+                ? onTransferMaxETH
+                : undefined
+            }
+            accent="purple"
+          />
+
+          <FeePreview
+            estimate={transferFee}
+            feeTier={feeTier}
+            onFeeTierChange={setFeeTier}
+            nativeCurrency={nativeCurrency}
+          />
 
           {/* Transfer Button */}
           <button
             type="submit"
             disabled={
               (transferType === "token" && !selectedToken) ||
-              !transferToAddress ||
-              !transferAmount ||
+              !recipient.address ||
+              recipientErrors.length > 0 ||
+              !warningsAcknowledged ||
+              transferCheck.amount === null ||
+              isReadOnly ||
               transferLoading
             }
             className="w-full bg-purple-600 text-white py-3 rounded-lg font-semibold hover:bg-purple-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
@@ -782,6 +1614,50 @@ const TransferTabContent: React.FC<TransferTabContentProps> = ({
   );
 };
 
+// Helper Component: Portfolio Stat Card
+interface PortfolioStatProps {
+  label: string;
+  value: UsdTotal;
+  loading: boolean;
+  highlight?: boolean;
+}
+
+const PortfolioStat: React.FC<PortfolioStatProps> = ({
+  label,
+  value,
+  loading,
+  highlight = false,
+}) => (
+  <div
+    className={`rounded-lg p-4 ${highlight ? "bg-blue-600 text-white" : "bg-gray-50 border border-gray-200"}`}
+  >
+    <div className={`text-sm ${highlight ? "text-blue-100" : "text-gray-500"}`}>
+      {label}
+    </div>
+    <div className="text-2xl font-bold">
+      {loading ? (
+        <span className="animate-pulse">...</span>
+      ) : (
+        formatUsd(value.total)
+      )}
+    </div>
+    {!loading && value.stale && (
+      <div
+        className={`text-xs mt-1 ${highlight ? "text-yellow-200" : "text-amber-600"}`}
+      >
+        ⚠️ Includes stale prices
+      </div>
+    )}
+    {!loading && value.unpriced.length > 0 && (
+      <div
+        className={`text-xs mt-1 ${highlight ? "text-blue-100" : "text-gray-500"}`}
+      >
+        Excludes {value.unpriced.join(", ")} (no price feed)
+      </div>
+    )}
+  </div>
+);
+
 // Helper Component: Token Balance Row
 interface TokenBalanceRowProps {
   balance: VaultBalance;
@@ -793,14 +1669,14 @@ const TokenBalanceRow: React.FC<TokenBalanceRowProps> = ({
   onTokenSelect,
 }) => {
   const { tokenInfo } = useERC20(balance.tokenAddress);
-  const { balanceDisplay, loading, error } = useERC20Balance(
-    balance.tokenAddress,
-    balance.tokenAddress,
-  );
 
   // Get wallet balance for this token
-  const { account } = useWeb3();
-  const walletBalanceInfo = useERC20Balance(balance.tokenAddress, account);
+  const { activeAddress } = useWeb3();
+  const walletBalanceInfo = useERC20Balance(
+    balance.tokenAddress,
+    activeAddress,
+  );
+  const { [balance.tokenAddress]: quote } = usePrices([balance.tokenAddress]);
 
   return (
     <div
@@ -811,20 +1687,25 @@ const TokenBalanceRow: React.FC<TokenBalanceRowProps> = ({
         <div className="flex items-center space-x-3">
           {tokenInfo ? (
             <>
-              <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 flex items-center justify-center shadow-md">
-                <span className="font-bold text-white text-base">
-                  {tokenInfo.symbol}
-                </span>
-              </div>
+              <TokenLogo token={tokenInfo} />
               <div>
                 <div className="font-semibold text-gray-900">
                   {tokenInfo.name}
                 </div>
-                <div className="text-sm text-gray-500 flex items-center gap-2">
+                <div className="text-sm text-gray-500 flex flex-wrap items-center gap-2">
                   <span>{tokenInfo.symbol}</span>
                   <span className="text-xs bg-gray-100 px-2 py-0.5 rounded">
                     {tokenInfo.decimals} decimals
                   </span>
+                  {tokenInfo.tags?.map((tag) => (
+                    <span
+                      key={tag.id}
+                      title={tag.description}
+                      className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded"
+                    >
+                      {tag.name}
+                    </span>
+                  ))}
                 </div>
               </div>
             </>
@@ -838,18 +1719,18 @@ const TokenBalanceRow: React.FC<TokenBalanceRowProps> = ({
           <div>
             <div className="text-sm text-gray-500">Vault Balance</div>
             <div className="font-bold text-lg text-gray-900">
-              {loading ? (
-                <span className="animate-pulse">Loading...</span>
-              ) : error ? (
-                <span className="text-red-500 text-sm">Error</span>
-              ) : (
-                `${balanceDisplay} ${tokenInfo?.symbol || ""}`
-              )}
+              {formatTokenAmount(balance.balanceRaw, balance.decimals)}{" "}
+              {balance.symbol}
             </div>
+            <UsdValue
+              amountRaw={balance.balanceRaw}
+              decimals={balance.decimals}
+              quote={quote}
+            />
           </div>
 
           {/* Wallet Balance */}
-          {account && walletBalanceInfo.balanceRaw > 0n && (
+          {activeAddress && walletBalanceInfo.balanceRaw > 0n && (
             <div>
               <div className="text-sm text-gray-500">Wallet Balance</div>
               <div className="font-medium text-gray-700 text-sm">
@@ -859,6 +1740,13 @@ const TokenBalanceRow: React.FC<TokenBalanceRowProps> = ({
                   `${walletBalanceInfo.balanceDisplay} ${tokenInfo?.symbol || ""}`
                 )}
               </div>
+              {!walletBalanceInfo.loading && (
+                <UsdValue
+                  amountRaw={walletBalanceInfo.balanceRaw}
+                  decimals={walletBalanceInfo.decimals}
+                  quote={quote}
+                />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,147 @@
+import { BrowserProvider, JsonRpcSigner } from "ethers";
+import type { InjectedEthereum } from "../context/Web3Context";
+import { SUPPORTED_NETWORKS, getRpcUrls } from "../hooks/useWeb3";
+import { createEmitter, type Connector, type ConnectorEvents } from "./types";
+
+interface Eip1193ConnectorOptions extends Pick<
+  Connector,
+  "id" | "name" | "icon" | "type"
+> {
+  getEthereum: () => Promise<InjectedEthereum>;
+  // Defaults to eth_requestAccounts
+  requestAccounts?: (ethereum: InjectedEthereum) => Promise<string[]>;
+  onDisconnect?: (ethereum: InjectedEthereum) => Promise<void>;
+}
+
+/**
+ * Connector over any EIP-1193 provider. Injected wallets and WalletConnect
+ * only differ in how the provider object is obtained and torn down.
+ */
+export const createEip1193Connector = ({
+  getEthereum,
+  requestAccounts = (ethereum) =>
+    ethereum.request({ method: "eth_requestAccounts" }),
+  onDisconnect,
+  ...info
+}: Eip1193ConnectorOptions): Connector => {
+  const emitter = createEmitter<ConnectorEvents>();
+  let ethereum: InjectedEthereum | null = null;
+  let provider: BrowserProvider | null = null;
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    emitter.emit("accountsChanged", accounts);
+  };
+
+  const handleChainChanged = (chainIdHex: string) => {
+    // A BrowserProvider is bound to the network it detected first,
+    // so a fresh one is needed after every chain switch
+    if (ethereum) provider = new BrowserProvider(ethereum);
+    emitter.emit("chainChanged", Number(chainIdHex));
+  };
+
+  const handleDisconnect = () => {
+    emitter.emit("disconnect");
+  };
+
+  const detach = () => {
+    if (!ethereum) return;
+    ethereum.removeListener("accountsChanged", handleAccountsChanged);
+    ethereum.removeListener("chainChanged", handleChainChanged);
+    ethereum.removeListener("disconnect", handleDisconnect);
+  };
+
+  const getProvider = () => {
+    if (!provider) throw new Error(`${info.name} is not connected`);
+    return provider;
+  };
+
+  return {
+    ...info,
+
+    async connect() {
+      const injected = await getEthereum();
+      const accounts = await requestAccounts(injected);
+
+      detach();
+      ethereum = injected;
+      provider = new BrowserProvider(injected);
+      injected.on("accountsChanged", handleAccountsChanged);
+      injected.on("chainChanged", handleChainChanged);
+      injected.on("disconnect", handleDisconnect);
+
+      const networkData = await provider.getNetwork();
+      return { accounts, chainId: Number(networkData.chainId) };
+    },
+
+    async disconnect() {
+      const current = ethereum;
+      detach();
+      ethereum = null;
+      provider?.destroy();
+      provider = null;
+      if (current && onDisconnect) await onDisconnect(current);
+    },
+
+    async isAuthorized() {
+      try {
+        const injected = await getEthereum();
+        const accounts: string[] = await injected.request({
+          method: "eth_accounts",
+        });
+        return accounts.length > 0;
+      } catch {
+        return false;
+      }
+    },
+
+    getProvider,
+
+    getSigner(account: string) {
+      return new JsonRpcSigner(getProvider(), account);
+    },
+
+    async switchChain(targetChainId: number) {
+      if (!ethereum) throw new Error("Wallet not connected");
+
+      const hexChainId = `0x${targetChainId.toString(16)}`;
+
+      try {
+        await ethereum.request({
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId: hexChainId }],
+        });
+      } catch (switchError) {
+        // This error code indicates that the chain has not been added to the
+        // wallet
+        if ((switchError as { code?: number }).code !== 4902) {
+          throw switchError;
+        }
+
+        const networkInfo = SUPPORTED_NETWORKS[targetChainId];
+        if (!networkInfo) {
+          throw new Error(`Network ${targetChainId} is not configured`);
+        }
+
+        await ethereum.request({
+          method: "wallet_addEthereumChain",
+          params: [
+            {
+              chainId: hexChainId,
+              chainName: networkInfo.name,
+              nativeCurrency: {
+                name: networkInfo.nativeCurrency,
+                symbol: networkInfo.nativeCurrency,
+                decimals: 18,
+              },
+              rpcUrls: getRpcUrls(targetChainId),
+              blockExplorerUrls: [networkInfo.explorerUrl],
+            },
+          ],
+        });
+      }
+    },
+
+    on: emitter.on,
+    off: emitter.off,
+  };
+};
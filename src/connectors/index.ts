@@ -0,0 +1,59 @@
+import { createMockConnector } from "./mock";
+import type { Connector } from "./types";
+import { createWalletConnectConnector } from "./walletConnect";
+import { SUPPORTED_NETWORKS } from "../hooks/useWeb3";
+
+export * from "./types";
+export * from "./injected";
+export { createMockConnector } from "./mock";
+export { createWalletConnectConnector } from "./walletConnect";
+
+const LAST_CONNECTOR_KEY = "web3:lastWallet";
+
+/**
+ * Connectors enabled through the environment:
+ * - VITE_WALLETCONNECT_PROJECT_ID enables WalletConnect v2
+ * - VITE_MOCK_PRIVATE_KEY (+ optional VITE_MOCK_RPC_URL) enables the mock wallet
+ */
+export const getConfiguredConnectors = (): Connector[] => {
+  const connectors: Connector[] = [];
+
+  const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+  if (projectId) {
+    const [first, ...rest] = Object.values(SUPPORTED_NETWORKS)
+      .filter((network) => network.isSupported)
+      .map((network) => network.chainId);
+    connectors.push(
+      createWalletConnectConnector({ projectId, chains: [first, ...rest] }),
+    );
+  }
+
+  const mockPrivateKey = import.meta.env.VITE_MOCK_PRIVATE_KEY;
+  if (mockPrivateKey) {
+    connectors.push(
+      createMockConnector({
+        privateKey: mockPrivateKey,
+        rpcUrl: import.meta.env.VITE_MOCK_RPC_URL,
+      }),
+    );
+  }
+
+  return connectors;
+};
+
+export const getLastConnector = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_CONNECTOR_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastConnector = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_CONNECTOR_KEY, id);
+    else localStorage.removeItem(LAST_CONNECTOR_KEY);
+  } catch {
+    // Storage can be unavailable (private mode); remembering is best effort
+  }
+};
@@ -0,0 +1,26 @@
+import type { InjectedEthereum } from "../context/Web3Context";
+import type { WalletDetail } from "../utils/eip6963";
+import { createEip1193Connector } from "./eip1193";
+import type { Connector } from "./types";
+
+// Id used for a legacy `window.ethereum` that does not announce via EIP-6963
+export const LEGACY_INJECTED_ID = "injected";
+
+export const createInjectedConnector = (detail: WalletDetail): Connector =>
+  createEip1193Connector({
+    id: detail.info.rdns,
+    name: detail.info.name,
+    icon: detail.info.icon,
+    type: "injected",
+    getEthereum: async () => detail.provider,
+  });
+
+export const createLegacyInjectedConnector = (
+  ethereum: InjectedEthereum,
+): Connector =>
+  createEip1193Connector({
+    id: LEGACY_INJECTED_ID,
+    name: "Browser Wallet",
+    type: "injected",
+    getEthereum: async () => ethereum,
+  });
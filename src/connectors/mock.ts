@@ -0,0 +1,74 @@
+import { JsonRpcProvider, Wallet } from "ethers";
+import { createEmitter, type Connector, type ConnectorEvents } from "./types";
+
+interface MockConnectorOptions {
+  privateKey: string;
+  rpcUrl?: string; // defaults to a local Hardhat/Anvil node
+  name?: string;
+}
+
+/**
+ * In-memory connector backed by an ethers Wallet. Signs locally without any
+ * browser extension, for local nodes and automated tests.
+ */
+export const createMockConnector = ({
+  privateKey,
+  rpcUrl = "http://127.0.0.1:8545",
+  name = "Mock Wallet",
+}: MockConnectorOptions): Connector => {
+  const emitter = createEmitter<ConnectorEvents>();
+  let wallet: Wallet | null = null;
+
+  const getWallet = () => {
+    if (!wallet) throw new Error(`${name} is not connected`);
+    return wallet;
+  };
+
+  return {
+    id: "mock",
+    name,
+    type: "mock",
+
+    async connect() {
+      const provider = new JsonRpcProvider(rpcUrl);
+      const networkData = await provider.getNetwork();
+
+      wallet = new Wallet(privateKey, provider);
+      return {
+        accounts: [wallet.address],
+        chainId: Number(networkData.chainId),
+      };
+    },
+
+    async disconnect() {
+      wallet?.provider?.destroy();
+      wallet = null;
+      emitter.emit("disconnect");
+    },
+
+    async isAuthorized() {
+      return true;
+    },
+
+    getProvider() {
+      return getWallet().provider!;
+    },
+
+    getSigner(account: string) {
+      const signer = getWallet();
+      if (signer.address.toLowerCase() !== account.toLowerCase()) {
+        throw new Error(`${name} cannot sign for ${account}`);
+      }
+      return signer;
+    },
+
+    async switchChain() {
+      throw new Error(
+        `${name} is bound to ${rpcUrl} and cannot switch networks`,
+      );
+    },
+
+    on: emitter.on,
+    off: emitter.off,
+  };
+};
@@ -0,0 +1,67 @@
+import type { Provider, Signer } from "ethers";
+
+export type ConnectorType = "injected" | "walletConnect" | "mock";
+
+export type ConnectorEvents = {
+  accountsChanged: [accounts: string[]];
+  chainChanged: [chainId: number];
+  disconnect: [];
+};
+
+export interface ConnectResult {
+  accounts: string[];
+  chainId: number;
+}
+
+/**
+ * A source of accounts and signatures. The Web3Provider only talks to the
+ * active connector, so wallets can be swapped without touching any hook.
+ */
+export interface Connector {
+  id: string;
+  name: string;
+  icon?: string;
+  type: ConnectorType;
+  connect(): Promise<ConnectResult>;
+  disconnect(): Promise<void>;
+  // Whether connect() would succeed without prompting the user
+  isAuthorized(): Promise<boolean>;
+  // Provider for the current chain; replaced after every chainChanged
+  getProvider(): Provider;
+  getSigner(account: string): Signer;
+  switchChain(chainId: number): Promise<void>;
+  on<E extends keyof ConnectorEvents>(
+    event: E,
+    listener: (...args: ConnectorEvents[E]) => void,
+  ): void;
+  off<E extends keyof ConnectorEvents>(
+    event: E,
+    listener: (...args: ConnectorEvents[E]) => void,
+  ): void;
+}
+
+export type ConnectorInfo = Pick<Connector, "id" | "name" | "icon" | "type">;
+
+export const createEmitter = <Events extends Record<string, unknown[]>>() => {
+  const listeners: {
+    [E in keyof Events]?: Set<(...args: Events[E]) => void>;
+  } = {};
+
+  return {
+    on<E extends keyof Events>(
+      event: E,
+      listener: (...args: Events[E]) => void,
+    ) {
+      (listeners[event] ??= new Set()).add(listener);
+    },
+    off<E extends keyof Events>(
+      event: E,
+      listener: (...args: Events[E]) => void,
+    ) {
+      listeners[event]?.delete(listener);
+    },
+    emit<E extends keyof Events>(event: E, ...args: Events[E]) {
+      listeners[event]?.forEach((listener) => listener(...args));
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import type { InjectedEthereum } from "../context/Web3Context";
+import { createEip1193Connector } from "./eip1193";
+import type { Connector } from "./types";
+
+// The SDK provider is EIP-1193 plus its own session management
+type WalletConnectEthereum = InjectedEthereum & {
+  enable(): Promise<string[]>;
+  disconnect(): Promise<void>;
+};
+
+interface WalletConnectOptions {
+  projectId: string; // from https://cloud.reown.com
+  chains: [number, ...number[]];
+}
+
+export const createWalletConnectConnector = ({
+  projectId,
+  chains,
+}: WalletConnectOptions): Connector => {
+  let ethereumPromise: Promise<WalletConnectEthereum> | null = null;
+
+  // The SDK is large and opens a relay connection, so only load it on demand
+  const getEthereum = () => {
+    ethereumPromise ??= import("@walletconnect/ethereum-provider")
+      .then(({ EthereumProvider }) =>
+        EthereumProvider.init({
+          projectId,
+          optionalChains: chains,
+          showQrModal: true,
+          metadata: {
+            name: document.title,
+            description: "Token Vault & Transfer",
+            url: window.location.origin,
+            icons: [`${window.location.origin}/vite.svg`],
+          },
+        }),
+      )
+      .then((provider) => provider as unknown as WalletConnectEthereum)
+      .catch((err) => {
+        ethereumPromise = null;
+        throw err;
+      });
+    return ethereumPromise;
+  };
+
+  return createEip1193Connector({
+    id: "walletConnect",
+    name: "WalletConnect",
+    type: "walletConnect",
+    getEthereum,
+    // Opens the QR modal unless a session already exists
+    requestAccounts: (ethereum) => (ethereum as WalletConnectEthereum).enable(),
+    onDisconnect: (ethereum) =>
+      (ethereum as WalletConnectEthereum).disconnect(),
+  });
+};
@@ -0,0 +1,57 @@
+import { createContext } from "react";
+import type { Eip1193Provider, Provider, Signer } from "ethers";
+import type { ConnectorInfo } from "../connectors/types";
+
+export interface NetworkInfo {
+  chainId: number;
+  name: string;
+  nativeCurrency: string;
+  explorerUrl: string;
+  isSupported: boolean;
+  opStack?: boolean; // charges an L1 data fee on every transaction
+}
+
+// EIP-1193 provider as injected by browser wallets (MetaMask & co)
+export interface InjectedEthereum extends Eip1193Provider {
+  on(event: "accountsChanged", listener: (accounts: string[]) => void): void;
+  on(event: "chainChanged", listener: (chainIdHex: string) => void): void;
+  on(event: "disconnect", listener: () => void): void;
+  removeListener(
+    event: "accountsChanged",
+    listener: (accounts: string[]) => void,
+  ): void;
+  removeListener(
+    event: "chainChanged",
+    listener: (chainIdHex: string) => void,
+  ): void;
+  removeListener(event: "disconnect", listener: () => void): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: InjectedEthereum;
+  }
+}
+
+export interface Web3ContextValue {
+  provider: Provider | null; // wallet provider
+  signer: Signer | null;
+  account: string | null;
+  chainId: number | null; // wallet chain, or the read-only chain
+  // Wallet provider, or a JSON-RPC fallback when no wallet is connected
+  readProvider: Provider | null;
+  watchAddress: string | null;
+  setWatchAddress: (address: string | null) => void;
+  // Connected account, or the watched address in read-only mode
+  activeAddress: string | null;
+  isReadOnly: boolean; // no signer attached, write actions disabled
+  network: NetworkInfo | null;
+  isConnected: boolean;
+  connectors: ConnectorInfo[];
+  activeConnector: string | null; // id of the connector in use
+  connectWallet: (connectorId?: string) => Promise<void>;
+  disconnectWallet: () => void;
+  switchNetwork: (chainId: number) => Promise<void>;
+}
+
+export const Web3Context = createContext<Web3ContextValue | null>(null);
@@ -0,0 +1,283 @@
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import { getAddress, isAddress, type Provider } from "ethers";
+import { Web3Context, type NetworkInfo } from "./Web3Context";
+import { DEFAULT_CHAIN_ID, SUPPORTED_NETWORKS } from "../hooks/useWeb3";
+import {
+  createInjectedConnector,
+  createLegacyInjectedConnector,
+  getConfiguredConnectors,
+  getLastConnector,
+  setLastConnector,
+  type ConnectResult,
+  type Connector,
+} from "../connectors";
+import { subscribeToWallets } from "../utils/eip6963";
+import { getReadProvider } from "../utils/readProvider";
+
+const getNetworkInfo = (chainId: number): NetworkInfo =>
+  SUPPORTED_NETWORKS[chainId] || {
+    chainId,
+    name: `Chain ${chainId}`,
+    nativeCurrency: "ETH",
+    explorerUrl: "#",
+    isSupported: false,
+  };
+
+interface Web3ProviderProps {
+  children: React.ReactNode;
+  // Extra connectors, e.g. a mock connector in automated tests
+  connectors?: Connector[];
+}
+
+/**
+ * Owns the single wallet connection for the whole app. Every `useWeb3()`
+ * call reads from here, so a signer obtained by `connectWallet` is visible
+ * to all hooks and components.
+ */
+export const Web3Provider: React.FC<Web3ProviderProps> = ({
+  children,
+  connectors: extraConnectors,
+}) => {
+  const [injectedConnectors, setInjectedConnectors] = useState<Connector[]>([]);
+  const [staticConnectors] = useState<Connector[]>(() => [
+    ...getConfiguredConnectors(),
+    ...(extraConnectors ?? []),
+  ]);
+  // Fallback for wallets that do not announce themselves via EIP-6963
+  const [legacyConnector] = useState<Connector | null>(() =>
+    window.ethereum ? createLegacyInjectedConnector(window.ethereum) : null,
+  );
+
+  const [connector, setConnector] = useState<Connector | null>(null);
+  // Replaced on every chain switch
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const [readChainId, setReadChainId] = useState(DEFAULT_CHAIN_ID);
+  const [watchAddress, setWatchAddressState] = useState<string | null>(null);
+  const restoreAttempted = useRef(false);
+
+  const allConnectors = useMemo(
+    () => [
+      ...(injectedConnectors.length > 0 || !legacyConnector
+        ? injectedConnectors
+        : [legacyConnector]),
+      ...staticConnectors,
+    ],
+    [injectedConnectors, legacyConnector, staticConnectors],
+  );
+
+  const connectors = useMemo(
+    () =>
+      allConnectors.map(({ id, name, icon, type }) => ({
+        id,
+        name,
+        icon,
+        type,
+      })),
+    [allConnectors],
+  );
+
+  const chainId = connector ? walletChainId : readChainId;
+
+  const readProvider = useMemo(
+    () => provider ?? (chainId ? getReadProvider(chainId) : null),
+    [provider, chainId],
+  );
+
+  const network = useMemo(
+    () => (chainId ? getNetworkInfo(chainId) : null),
+    [chainId],
+  );
+
+  // Re-derived whenever the provider (chain) or account changes
+  const signer = useMemo(
+    () =>
+      connector && provider && account ? connector.getSigner(account) : null,
+    [connector, provider, account],
+  );
+
+  const activate = useCallback(
+    (active: Connector, { accounts, chainId }: ConnectResult) => {
+      setConnector(active);
+      setProvider(active.getProvider());
+      setWalletChainId(chainId);
+      setAccount(accounts[0] || null);
+    },
+    [],
+  );
+
+  const reset = useCallback(() => {
+    setConnector(null);
+    setProvider(null);
+    setWalletChainId(null);
+    setAccount(null);
+  }, []);
+
+  // Wrap each wallet announced via EIP-6963 in an injected connector
+  useEffect(() => {
+    const created = new Map<string, Connector>();
+
+    return subscribeToWallets((details) => {
+      setInjectedConnectors(
+        details.map((detail) => {
+          const existing = created.get(detail.info.rdns);
+          if (existing) return existing;
+
+          const injected = createInjectedConnector(detail);
+          created.set(detail.info.rdns, injected);
+          return injected;
+        }),
+      );
+    });
+  }, []);
+
+  // Silently reconnect to the connector used last session once it is
+  // available, without prompting the user
+  useEffect(() => {
+    if (restoreAttempted.current) return;
+
+    const lastConnector = getLastConnector();
+    const match = allConnectors.find((c) => c.id === lastConnector);
+    if (!lastConnector || !match) return;
+
+    restoreAttempted.current = true;
+    (async () => {
+      try {
+        if (await match.isAuthorized()) activate(match, await match.connect());
+      } catch (err) {
+        console.error("Failed to restore wallet session:", err);
+      }
+    })();
+  }, [allConnectors, activate]);
+
+  useEffect(() => {
+    if (!connector) return;
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      console.log("🔄 Accounts changed:", accounts);
+      setAccount(accounts[0] || null);
+    };
+
+    const handleChainChanged = (newChainId: number) => {
+      console.log("🔄 Chain changed:", { newChainId });
+      setProvider(connector.getProvider());
+      setWalletChainId(newChainId);
+    };
+
+    connector.on("accountsChanged", handleAccountsChanged);
+    connector.on("chainChanged", handleChainChanged);
+    connector.on("disconnect", reset);
+
+    return () => {
+      connector.off("accountsChanged", handleAccountsChanged);
+      connector.off("chainChanged", handleChainChanged);
+      connector.off("disconnect", reset);
+    };
+  }, [connector, reset]);
+
+  const connectWallet = useCallback(
+    async (connectorId?: string) => {
+      // Without an explicit choice only proceed when there is no choice to make
+      const selected = connectorId
+        ? allConnectors.find((c) => c.id === connectorId)
+        : allConnectors.length === 1
+          ? allConnectors[0]
+          : undefined;
+
+      if (!selected) {
+        throw new Error(
+          connectorId
+            ? `Wallet ${connectorId} not found`
+            : allConnectors.length === 0
+              ? "No wallet detected"
+              : "Select a wallet to connect",
+        );
+      }
+
+      try {
+        activate(selected, await selected.connect());
+        setLastConnector(selected.id);
+      } catch (error) {
+        console.error("Failed to connect wallet:", error);
+        throw error;
+      }
+    },
+    [allConnectors, activate],
+  );
+
+  const setWatchAddress = useCallback((address: string | null) => {
+    if (address && !isAddress(address)) {
+      throw new Error("Invalid address");
+    }
+    setWatchAddressState(address ? getAddress(address) : null);
+  }, []);
+
+  const disconnectWallet = useCallback(() => {
+    connector
+      ?.disconnect()
+      .catch((err) => console.error("Failed to disconnect wallet:", err));
+    reset();
+    setLastConnector(null);
+  }, [connector, reset]);
+
+  const switchNetwork = useCallback(
+    async (targetChainId: number) => {
+      if (connector) {
+        await connector.switchChain(targetChainId);
+        return;
+      }
+
+      // Read-only mode just points the JSON-RPC fallback at another chain
+      if (!SUPPORTED_NETWORKS[targetChainId]) {
+        throw new Error(`Network ${targetChainId} is not configured`);
+      }
+      setReadChainId(targetChainId);
+    },
+    [connector],
+  );
+
+  const value = useMemo(
+    () => ({
+      provider,
+      signer,
+      account,
+      chainId,
+      network,
+      readProvider,
+      watchAddress,
+      setWatchAddress,
+      activeAddress: account ?? watchAddress,
+      isReadOnly: !signer,
+      isConnected: !!account,
+      connectors,
+      activeConnector: connector?.id ?? null,
+      connectWallet,
+      disconnectWallet,
+      switchNetwork,
+    }),
+    [
+      provider,
+      signer,
+      account,
+      chainId,
+      network,
+      readProvider,
+      watchAddress,
+      setWatchAddress,
+      connectors,
+      connector,
+      connectWallet,
+      disconnectWallet,
+      switchNetwork,
+    ],
+  );
+
+  return <Web3Context.Provider value={value}>{children}</Web3Context.Provider>;
+};
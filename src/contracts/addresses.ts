@@ -1,39 +1,266 @@
-export const NETWORK_CONFIG = {
-  // Sepolia Testnet - UPDATE THIS ACCORDING TO YOUR TOKEN ADDRESSES!
-  11155111: {
-    vaultAddress: "0x...", // Replace with your vault address on Sepolia
-
-    // ⚠️ THESE ARE COMMONLY USED SEPOLIA TOKEN ADDRESSES
-    // Replace with the token addresses you actually use!
-    supportedTokens: {
-      // USDC Sepolia (FAUCET: https://sepoliafaucet.com/)
-      USDC: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
-
-      // DAI Sepolia
-      DAI: "0x2c204C811a9919E5dC4b0b975921A369b13a2d37",
-
-      // Mock USDT Sepolia (if available)
-      USDT: "0x...", // Replace with your USDT address
-
-      // WETH Sepolia
-      WETH: "0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14",
-    },
-  },
-
-  // Mainnet
-  1: {
-    vaultAddress: "0x...",
-    supportedTokens: {
-      USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-      USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-      DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
-    },
-  },
-} as const;
-
-export const getContractAddresses = (chainId: number) => {
-  return (
-    NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG] ||
-    NETWORK_CONFIG[11155111]
-  );
+import { getAddress, ZeroAddress } from "ethers";
+import { SUPPORTED_NETWORKS } from "../hooks/useWeb3";
+import defaultNetworks from "./networks.json";
+
+/**
+ * Deployed contract addresses per chain.
+ *
+ * Sources, later ones overriding earlier ones per chain:
+ *   1. `networks.json` next to this file
+ *   2. `VITE_NETWORK_CONFIG`, a JSON string of the same shape
+ *   3. `VITE_VAULT_ADDRESS_<chainId>` / `VITE_VAULT_DEPLOYMENT_BLOCK_<chainId>`
+ *
+ * Everything is validated once at startup. Invalid entries are dropped and
+ * reported instead of being used, so a chain without a valid vault address
+ * is "unconfigured" rather than silently pointed at another network.
+ */
+
+export interface NetworkContracts {
+  vaultAddress?: string;
+  // Block the vault was deployed in, where activity scans start.
+  // 0 scans only recent blocks.
+  vaultDeploymentBlock?: number;
+  // Display name -> token address
+  supportedTokens?: Record<string, string>;
+  // Token address (or NATIVE_ASSET) -> Chainlink USD feed
+  priceFeeds?: Record<string, PriceFeedConfig>;
+}
+
+// Key of the chain's native currency in `priceFeeds`
+export const NATIVE_ASSET = "native";
+
+export interface PriceFeedConfig {
+  feed: string; // AggregatorV3Interface proxy, quoting in USD
+  heartbeat: number; // seconds between updates at most; older answers are stale
+}
+
+export type ContractAddresses =
+  | {
+      status: "configured";
+      vaultAddress: string;
+      vaultDeploymentBlock: number;
+      supportedTokens: Record<string, string>;
+    }
+  | {
+      status: "unconfigured";
+      reason: string;
+      supportedTokens: Record<string, string>;
+    };
+
+interface ValidatedNetwork {
+  vault: { address: string; deploymentBlock: number } | { reason: string };
+  supportedTokens: Record<string, string>;
+  priceFeeds: Map<string, PriceFeedConfig>; // keyed by lowercase asset
+}
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+// Returns why `value` is not a usable checksummed address, or null if it is
+const checkAddress = (value: unknown): string | null => {
+  if (typeof value !== "string") return "must be a string";
+  if (value.includes("...") || value === "0x" || value === "") {
+    return `"${value}" is a placeholder`;
+  }
+  if (!HEX_ADDRESS.test(value)) return `"${value}" is not an address`;
+
+  let checksummed: string;
+  try {
+    checksummed = getAddress(value);
+  } catch {
+    return `"${value}" has an invalid checksum`;
+  }
+  if (checksummed !== value) {
+    return `"${value}" is not checksummed (expected ${checksummed})`;
+  }
+  if (value === ZeroAddress) return "is the zero address";
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validateNetwork = (
+  chainId: number,
+  raw: unknown,
+  errors: string[],
+): ValidatedNetwork | null => {
+  const where = `chain ${chainId}`;
+  if (!isRecord(raw)) {
+    errors.push(`${where}: entry must be an object`);
+    return null;
+  }
+
+  const supportedTokens: Record<string, string> = {};
+  if (raw.supportedTokens !== undefined && !isRecord(raw.supportedTokens)) {
+    errors.push(`${where}: supportedTokens must be an object`);
+  } else {
+    for (const [name, address] of Object.entries(raw.supportedTokens ?? {})) {
+      const problem = checkAddress(address);
+      if (problem) {
+        errors.push(`${where}: token ${name} ${problem}`);
+      } else {
+        supportedTokens[name] = address as string;
+      }
+    }
+  }
+
+  const deploymentBlock = raw.vaultDeploymentBlock ?? 0;
+  const validBlock =
+    typeof deploymentBlock === "number" &&
+    Number.isSafeInteger(deploymentBlock) &&
+    deploymentBlock >= 0;
+  if (!validBlock) {
+    errors.push(
+      `${where}: vaultDeploymentBlock must be a non-negative integer`,
+    );
+  }
+
+  let vault: ValidatedNetwork["vault"];
+  if (raw.vaultAddress === undefined) {
+    vault = { reason: "No vault address configured" };
+  } else {
+    const problem = checkAddress(raw.vaultAddress);
+    if (problem) {
+      errors.push(`${where}: vaultAddress ${problem}`);
+      vault = { reason: `Invalid vault address: ${problem}` };
+    } else {
+      vault = {
+        address: raw.vaultAddress as string,
+        deploymentBlock: validBlock ? deploymentBlock : 0,
+      };
+    }
+  }
+
+  const priceFeeds = new Map<string, PriceFeedConfig>();
+  if (raw.priceFeeds !== undefined && !isRecord(raw.priceFeeds)) {
+    errors.push(`${where}: priceFeeds must be an object`);
+  } else {
+    for (const [asset, config] of Object.entries(raw.priceFeeds ?? {})) {
+      const assetProblem = asset === NATIVE_ASSET ? null : checkAddress(asset);
+      const feedProblem = isRecord(config)
+        ? checkAddress(config.feed)
+        : "must be an object";
+      if (assetProblem || feedProblem) {
+        errors.push(
+          `${where}: price feed for ${asset} ${assetProblem ?? feedProblem}`,
+        );
+        continue;
+      }
+      const { feed, heartbeat } = config as Record<string, unknown>;
+      if (
+        typeof heartbeat !== "number" ||
+        !Number.isSafeInteger(heartbeat) ||
+        heartbeat <= 0
+      ) {
+        errors.push(
+          `${where}: price feed for ${asset} needs a heartbeat in seconds`,
+        );
+        continue;
+      }
+      priceFeeds.set(asset.toLowerCase(), { feed: feed as string, heartbeat });
+    }
+  }
+
+  return { vault, supportedTokens, priceFeeds };
+};
+
+const parseEnvConfig = (errors: string[]): Record<string, unknown> => {
+  const raw = import.meta.env.VITE_NETWORK_CONFIG;
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (isRecord(parsed)) return parsed;
+    errors.push("VITE_NETWORK_CONFIG must be a JSON object keyed by chain id");
+  } catch {
+    errors.push("VITE_NETWORK_CONFIG is not valid JSON");
+  }
+  return {};
+};
+
+// Per-chain env vars, folded into the same shape as the JSON sources
+const parseEnvOverrides = (
+  errors: string[],
+): Record<string, NetworkContracts> => {
+  const overrides: Record<string, NetworkContracts> = {};
+  for (const [key, value] of Object.entries(import.meta.env)) {
+    const match = /^VITE_VAULT_(ADDRESS|DEPLOYMENT_BLOCK)_(\d+)$/.exec(key);
+    if (!match || typeof value !== "string") continue;
+
+    const entry = (overrides[match[2]] ??= {});
+    if (match[1] === "ADDRESS") {
+      entry.vaultAddress = value.trim();
+    } else {
+      const block = Number(value);
+      if (value.trim() === "" || Number.isNaN(block)) {
+        errors.push(`${key} must be a block number`);
+      } else {
+        entry.vaultDeploymentBlock = block;
+      }
+    }
+  }
+  return overrides;
+};
+
+const loadNetworkConfig = () => {
+  const errors: string[] = [];
+  const merged: Record<string, unknown> = {
+    ...defaultNetworks,
+    ...parseEnvConfig(errors),
+  };
+  for (const [chainId, override] of Object.entries(parseEnvOverrides(errors))) {
+    merged[chainId] = {
+      ...(isRecord(merged[chainId]) ? merged[chainId] : {}),
+      ...override,
+    };
+  }
+
+  const networks = new Map<number, ValidatedNetwork>();
+  for (const [key, raw] of Object.entries(merged)) {
+    const chainId = Number(key);
+    if (!Number.isSafeInteger(chainId) || !SUPPORTED_NETWORKS[chainId]) {
+      errors.push(`chain ${key}: unknown chain id`);
+      continue;
+    }
+    const network = validateNetwork(chainId, raw, errors);
+    if (network) networks.set(chainId, network);
+  }
+
+  if (errors.length > 0) {
+    console.warn("⚠️ Network config problems:\n" + errors.join("\n"));
+  }
+  return { networks, errors };
+};
+
+const { networks, errors: configErrors } = loadNetworkConfig();
+
+// Problems found while loading the config, for display
+export const getNetworkConfigErrors = (): readonly string[] => configErrors;
+
+export const getContractAddresses = (chainId: number): ContractAddresses => {
+  const network = networks.get(chainId);
+  if (!network) {
+    return {
+      status: "unconfigured",
+      reason: `No contracts configured for chain ${chainId}`,
+      supportedTokens: {},
+    };
+  }
+
+  const { vault, supportedTokens } = network;
+  if ("reason" in vault) {
+    return { status: "unconfigured", reason: vault.reason, supportedTokens };
+  }
+  return {
+    status: "configured",
+    vaultAddress: vault.address,
+    vaultDeploymentBlock: vault.deploymentBlock,
+    supportedTokens,
+  };
 };
+
+// USD price feed for a token address or NATIVE_ASSET, if one is configured
+export const getPriceFeed = (
+  chainId: number,
+  asset: string,
+): PriceFeedConfig | undefined =>
+  networks.get(chainId)?.priceFeeds.get(asset.toLowerCase());
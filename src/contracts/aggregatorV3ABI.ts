@@ -0,0 +1,24 @@
+import { Contract, type ContractRunner } from "ethers";
+import type { ParseAbi } from "abitype";
+import type { TypedContract } from "./typedContract";
+
+// Chainlink AggregatorV3Interface, as exposed by every price feed proxy
+export const AGGREGATOR_V3_ABI = [
+  "function decimals() view returns (uint8)",
+  "function description() view returns (string)",
+  "function version() view returns (uint256)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+] as const;
+
+export type AggregatorV3Abi = ParseAbi<typeof AGGREGATOR_V3_ABI>;
+export type AggregatorV3Contract = TypedContract<AggregatorV3Abi>;
+
+export const getAggregatorV3Contract = (
+  address: string,
+  runner: ContractRunner | null,
+): AggregatorV3Contract =>
+  new Contract(
+    address,
+    AGGREGATOR_V3_ABI,
+    runner,
+  ) as unknown as AggregatorV3Contract;
@@ -1,3 +1,7 @@
+import { Contract, type ContractRunner } from "ethers";
+import type { ParseAbi } from "abitype";
+import type { TypedContract } from "./typedContract";
+
 export const ERC20_ABI = [
   "function name() view returns (string)",
   "function symbol() view returns (string)",
@@ -12,4 +16,18 @@ export const ERC20_ABI = [
   // Events
   "event Transfer(address indexed from, address indexed to, uint256 value)",
   "event Approval(address indexed owner, address indexed spender, uint256 value)",
+
+  // Errors (ERC-6093, bubbled up through vault deposits)
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidReceiver(address receiver)",
 ] as const;
+
+export type ERC20Abi = ParseAbi<typeof ERC20_ABI>;
+export type ERC20Contract = TypedContract<ERC20Abi>;
+
+export const getERC20Contract = (
+  address: string,
+  runner: ContractRunner | null,
+): ERC20Contract =>
+  new Contract(address, ERC20_ABI, runner) as unknown as ERC20Contract;
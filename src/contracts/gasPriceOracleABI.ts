@@ -0,0 +1,9 @@
+// OP Stack chains (Base, Optimism, ...) charge an L1 data fee on top of L2
+// gas; this predeploy quotes it for a serialized transaction
+// https://docs.optimism.io/stack/transactions/fees
+export const GAS_PRICE_ORACLE_ADDRESS =
+  "0x420000000000000000000000000000000000000F";
+
+export const GAS_PRICE_ORACLE_ABI = [
+  "function getL1Fee(bytes _data) view returns (uint256)",
+] as const;
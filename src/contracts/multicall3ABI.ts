@@ -0,0 +1,7 @@
+// Multicall3 is deployed at the same address on every major EVM chain
+// https://github.com/mds1/multicall3
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+] as const;
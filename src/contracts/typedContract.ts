@@ -0,0 +1,178 @@
+import type {
+  Abi,
+  AbiEvent,
+  AbiFunction,
+  AbiParameter,
+  ExtractAbiEvent,
+  ExtractAbiEventNames,
+  ExtractAbiFunction,
+  ExtractAbiFunctionNames,
+} from "abitype";
+import type {
+  BaseContract,
+  BigNumberish,
+  BlockTag,
+  BytesLike,
+  ContractEventPayload,
+  ContractRunner,
+  ContractTransaction,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventLog,
+  Overrides,
+  Result,
+} from "ethers";
+
+// Types are derived from the `as const` ABIs (parsed with abitype's
+// ParseAbi) and mapped to what ethers v6 accepts and returns.
+
+type Direction = "inputs" | "outputs";
+
+// ethers accepts loose numeric/bytes inputs but always decodes to bigint/hex
+type PrimitiveType<T extends string, D extends Direction> = T extends
+  "address" | "string"
+  ? string
+  : T extends "bool"
+    ? boolean
+    : T extends `${"u" | ""}int${string}`
+      ? D extends "inputs"
+        ? BigNumberish
+        : bigint
+      : T extends `bytes${string}`
+        ? D extends "inputs"
+          ? BytesLike
+          : string
+        : unknown; // tuples and arrays are not used by our ABIs
+
+type ParameterTypes<P extends readonly AbiParameter[], D extends Direction> = {
+  -readonly [K in keyof P]: P[K] extends AbiParameter
+    ? PrimitiveType<P[K]["type"], D>
+    : never;
+};
+
+type WithOverrides<A extends unknown[]> = A | [...A, Overrides];
+
+type FunctionArgs<F extends AbiFunction> = ParameterTypes<
+  F["inputs"],
+  "inputs"
+>;
+
+// No outputs → void, one → the value itself, several → ethers Result
+type FunctionReturn<F extends AbiFunction> = F["outputs"] extends readonly []
+  ? void
+  : F["outputs"] extends readonly [infer O extends AbiParameter]
+    ? PrimitiveType<O["type"], "outputs">
+    : Result & ParameterTypes<F["outputs"], "outputs">;
+
+type IsReadOnly<F extends AbiFunction> = F["stateMutability"] extends
+  "view" | "pure"
+  ? true
+  : false;
+
+export interface TypedContractMethod<F extends AbiFunction> {
+  (
+    ...args: WithOverrides<FunctionArgs<F>>
+  ): Promise<
+    IsReadOnly<F> extends true ? FunctionReturn<F> : ContractTransactionResponse
+  >;
+  staticCall(
+    ...args: WithOverrides<FunctionArgs<F>>
+  ): Promise<FunctionReturn<F>>;
+  estimateGas(...args: WithOverrides<FunctionArgs<F>>): Promise<bigint>;
+  populateTransaction(
+    ...args: WithOverrides<FunctionArgs<F>>
+  ): Promise<ContractTransaction>;
+}
+
+type EventArgs<E extends AbiEvent> = ParameterTypes<E["inputs"], "outputs">;
+
+// Named event arguments, e.g. log.args.amount
+type EventArgsObject<E extends AbiEvent> = {
+  [P in E["inputs"][number] as P["name"] & string]: PrimitiveType<
+    P["type"],
+    "outputs"
+  >;
+};
+
+// Filter values follow the event inputs; only indexed ones can be set and
+// null/undefined matches anything
+type EventFilterArgs<P extends readonly AbiParameter[]> = P extends readonly [
+  infer H extends AbiParameter,
+  ...infer R extends readonly AbiParameter[],
+]
+  ? [
+      (H extends { indexed: true }
+        ? PrimitiveType<H["type"], "inputs"> | null
+        : null)?,
+      ...EventFilterArgs<R>,
+    ]
+  : [];
+
+// Remembers which event a filter belongs to, so queryFilter can type its logs
+export interface TypedTopicFilter<
+  N extends string,
+> extends DeferredTopicFilter {
+  readonly __event?: N;
+}
+
+export type TypedEventLog<E extends AbiEvent> = Omit<EventLog, "args"> & {
+  args: Result & EventArgs<E> & EventArgsObject<E>;
+};
+
+export type TypedListener<E extends AbiEvent> = (
+  ...args: [...EventArgs<E>, ContractEventPayload]
+) => void;
+
+/**
+ * A `Contract` whose methods, events and filters are typed from its ABI.
+ * Create one with `new Contract(...) as unknown as TypedContract<...>`
+ * behind a small factory, see `getVaultContract`.
+ */
+export type TypedContract<TAbi extends Abi> = Omit<
+  BaseContract,
+  "connect" | "filters" | "on" | "once" | "off" | "queryFilter"
+> & {
+  [N in ExtractAbiFunctionNames<TAbi>]: TypedContractMethod<
+    ExtractAbiFunction<TAbi, N>
+  >;
+} & {
+  connect(runner: ContractRunner | null): TypedContract<TAbi>;
+  filters: {
+    [N in ExtractAbiEventNames<TAbi>]: (
+      ...args: EventFilterArgs<ExtractAbiEvent<TAbi, N>["inputs"]>
+    ) => TypedTopicFilter<N>;
+  };
+  on<N extends ExtractAbiEventNames<TAbi>>(
+    event: N,
+    listener: TypedListener<ExtractAbiEvent<TAbi, N>>,
+  ): Promise<TypedContract<TAbi>>;
+  once<N extends ExtractAbiEventNames<TAbi>>(
+    event: N,
+    listener: TypedListener<ExtractAbiEvent<TAbi, N>>,
+  ): Promise<TypedContract<TAbi>>;
+  off<N extends ExtractAbiEventNames<TAbi>>(
+    event: N,
+    listener?: TypedListener<ExtractAbiEvent<TAbi, N>>,
+  ): Promise<TypedContract<TAbi>>;
+  queryFilter<N extends ExtractAbiEventNames<TAbi>>(
+    event: N | TypedTopicFilter<N>,
+    fromBlock?: BlockTag,
+    toBlock?: BlockTag,
+  ): Promise<TypedEventLog<ExtractAbiEvent<TAbi, N>>[]>;
+};
+
+// Argument and return types of one contract function, e.g. for batchRead
+export type ContractFunctionArgs<
+  TAbi extends Abi,
+  N extends ExtractAbiFunctionNames<TAbi>,
+> = FunctionArgs<ExtractAbiFunction<TAbi, N>>;
+
+export type ContractFunctionReturn<
+  TAbi extends Abi,
+  N extends ExtractAbiFunctionNames<TAbi>,
+> = FunctionReturn<ExtractAbiFunction<TAbi, N>>;
+
+export type ViewFunctionNames<TAbi extends Abi> = ExtractAbiFunctionNames<
+  TAbi,
+  "view" | "pure"
+>;
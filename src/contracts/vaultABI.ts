@@ -1,13 +1,19 @@
+import { Contract, type ContractRunner } from "ethers";
+import type { ParseAbi } from "abitype";
+import type { TypedContract } from "./typedContract";
+
 export const VAULT_ABI = [
   // View functions
   "function balances(address user, address token) view returns (uint256)",
   "function getUserBalance(address user, address token) view returns (uint256)",
   "function supportedTokens(address) view returns (bool)",
   "function paused() view returns (bool)",
+  "function owner() view returns (address)",
 
   // User functions
   "function deposit(address token, uint256 amount)",
   "function withdraw(address token, uint256 amount)",
+  "function depositWithPermit(address token, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
 
   // Admin functions
   "function addSupportedToken(address token)",
@@ -22,4 +28,20 @@ export const VAULT_ABI = [
   "event EmergencyWithdrawal(address indexed token, uint256 amount, address indexed recipient)",
   "event Paused(address account)",
   "event Unpaused(address account)",
+
+  // Errors (OpenZeppelin v5 Pausable, Ownable, SafeERC20, ReentrancyGuard)
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error SafeERC20FailedOperation(address token)",
+  "error ReentrancyGuardReentrantCall()",
 ] as const;
+
+export type VaultAbi = ParseAbi<typeof VAULT_ABI>;
+export type VaultContract = TypedContract<VaultAbi>;
+
+export const getVaultContract = (
+  address: string,
+  runner: ContractRunner | null,
+): VaultContract =>
+  new Contract(address, VAULT_ABI, runner) as unknown as VaultContract;
@@ -0,0 +1,82 @@
+import { useEffect, useCallback, useMemo, useSyncExternalStore } from "react";
+import { useWeb3 } from "./useWeb3";
+import { useTokensInfo, type TokenInfo } from "./useERC20";
+import { getContractAddresses } from "../contracts/addresses";
+import {
+  activityKey,
+  getActivitySnapshot,
+  subscribeActivity,
+  syncActivity,
+  type ActivityEntry,
+} from "../utils/activity";
+import { normalizeError } from "../utils/errors";
+
+export interface ActivityItem extends ActivityEntry {
+  tokenInfo?: TokenInfo;
+}
+
+// Vault deposits and withdrawals of the active address, newest first
+export const useActivity = () => {
+  const { readProvider, chainId, activeAddress } = useWeb3();
+
+  const addresses = chainId ? getContractAddresses(chainId) : null;
+  const { vaultAddress, vaultDeploymentBlock } =
+    addresses?.status === "configured"
+      ? addresses
+      : { vaultAddress: "", vaultDeploymentBlock: 0 };
+  const hasVault = vaultAddress !== "";
+
+  const key =
+    chainId && activeAddress && hasVault
+      ? activityKey(chainId, vaultAddress, activeAddress)
+      : null;
+  const snapshot = useSyncExternalStore(subscribeActivity, () =>
+    getActivitySnapshot(key),
+  );
+
+  const refresh = useCallback(() => {
+    if (!readProvider || !chainId || !activeAddress || !hasVault) return;
+    syncActivity(
+      readProvider,
+      chainId,
+      vaultAddress,
+      activeAddress,
+      vaultDeploymentBlock,
+    );
+  }, [
+    readProvider,
+    chainId,
+    activeAddress,
+    hasVault,
+    vaultAddress,
+    vaultDeploymentBlock,
+  ]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const tokenInfos = useTokensInfo([
+    ...new Set(snapshot.entries.map((entry) => entry.token)),
+  ]);
+
+  const items = useMemo<ActivityItem[]>(
+    () =>
+      snapshot.entries.map((entry) => ({
+        ...entry,
+        tokenInfo: tokenInfos[entry.token],
+      })),
+    [snapshot.entries, tokenInfos],
+  );
+
+  return {
+    items,
+    syncing: snapshot.syncing,
+    error: snapshot.error
+      ? normalizeError(snapshot.error, "Failed to load activity")
+      : null,
+    refresh,
+    vaultUnconfigured:
+      addresses?.status === "unconfigured" ? addresses.reason : null,
+  };
+};
@@ -1,13 +1,57 @@
-import { useState, useEffect, useMemo } from "react";
-import { Contract, formatUnits, parseUnits } from "ethers";
-import { ERC20_ABI } from "../contracts/erc20ABI";
+import { useState, useEffect, useMemo, useSyncExternalStore } from "react";
+import { Interface, formatUnits, isAddress } from "ethers";
+import {
+  ERC20_ABI,
+  getERC20Contract,
+  type ERC20Abi,
+} from "../contracts/erc20ABI";
+import type { ContractFunctionReturn } from "../contracts/typedContract";
 import { useWeb3 } from "./useWeb3";
+import { batchRead } from "../utils/multicall";
+import { trackTransaction } from "../utils/transactionManager";
+import { normalizeError, type NormalizedError } from "../utils/errors";
+import {
+  getFeeOverrides,
+  getFeeQuotes,
+  getL1DataFee,
+  type FeeOverrides,
+  type FeeTier,
+  type GasEstimate,
+} from "../utils/fees";
+import { rememberRecipient } from "../utils/recipientChecks";
+import { formatTokenAmount } from "../utils/format";
+import {
+  fetchTokenInfo,
+  getCachedToken,
+  getCachedTokens,
+  subscribeTokens,
+} from "../utils/tokenRegistry";
+import type { TokenTag } from "../utils/tokenLists";
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Gas of a plain ETH transfer to an externally owned account
+const ETH_TRANSFER_GAS = 21_000n;
+
+// Stable empty result, so callers can memoize on it
+const NO_BALANCES: Record<string, bigint> = {};
+
+// Result of getMaxETHAmount. Sending it with the same gas limit and fees
+// keeps the transfer within what was reserved for gas.
+export interface MaxETHAmount {
+  amount: bigint;
+  gasLimit: bigint;
+  fees: FeeOverrides;
+}
 
 export interface TokenInfo {
   name: string;
   symbol: string;
   decimals: number;
   address: string;
+  // Only known for tokens found in a token list
+  logoURI?: string;
+  tags?: TokenTag[];
 }
 
 export interface TokenBalanceInfo {
@@ -16,61 +60,72 @@ export interface TokenBalanceInfo {
   balanceDisplay: string; // User-friendly format
   decimals: number;
   loading: boolean;
-  error: string | null;
+  error: NormalizedError | null;
 }
 
 export const useERC20 = (tokenAddress: string | null) => {
-  const { provider } = useWeb3();
-  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
+  const { readProvider: provider, chainId } = useWeb3();
+  const tokenInfo = useSyncExternalStore(
+    subscribeTokens,
+    () => getCachedToken(chainId, tokenAddress) ?? null,
+  );
+  const [failure, setFailure] = useState<{
+    address: string;
+    error: NormalizedError;
+  } | null>(null);
+
+  // Only hits the chain for tokens the registry has not seen yet
   useEffect(() => {
-    if (!provider || !tokenAddress) return;
+    if (!provider || !chainId || !tokenAddress || tokenInfo) return;
 
-    const fetchTokenInfo = async () => {
-      try {
-        setLoading(true);
-        setError(null);
+    fetchTokenInfo(provider, chainId, tokenAddress).catch((err) => {
+      console.error("Failed to fetch token info:", err);
+      setFailure({
+        address: tokenAddress,
+        error: normalizeError(err, "Failed to load token"),
+      });
+    });
+  }, [provider, chainId, tokenAddress, tokenInfo]);
 
-        const tokenContract = new Contract(tokenAddress, ERC20_ABI, provider);
+  const error = failure?.address === tokenAddress ? failure.error : null;
+  const loading = !!tokenAddress && !tokenInfo && !error;
 
-        const [name, symbol, decimals] = await Promise.all([
-          tokenContract.name(),
-          tokenContract.symbol(),
-          tokenContract.decimals(),
-        ]);
+  return { tokenInfo, loading, error };
+};
 
-        setTokenInfo({
-          name,
-          symbol,
-          decimals: Number(decimals),
-          address: tokenAddress,
-        });
-      } catch (err) {
-        console.error("Failed to fetch token info:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
-      } finally {
-        setLoading(false);
-      }
-    };
+// Registry metadata for several tokens at once, e.g. to label a token select
+export const useTokensInfo = (
+  tokenAddresses: string[],
+): Record<string, TokenInfo | undefined> => {
+  const { readProvider: provider, chainId } = useWeb3();
+  const tokenInfos = useSyncExternalStore(subscribeTokens, () =>
+    getCachedTokens(chainId, tokenAddresses),
+  );
+  const addressesKey = tokenAddresses.join(",");
+
+  useEffect(() => {
+    if (!provider || !chainId || !addressesKey) return;
 
-    fetchTokenInfo();
-  }, [provider, tokenAddress]);
+    addressesKey.split(",").forEach((address) => {
+      fetchTokenInfo(provider, chainId, address).catch((err) =>
+        console.error(`Failed to fetch token info for ${address}:`, err),
+      );
+    });
+  }, [provider, chainId, addressesKey]);
 
-  return { tokenInfo, loading, error };
+  return tokenInfos;
 };
 
 export const useERC20Balance = (
   tokenAddress: string | null,
   account: string | null,
 ): TokenBalanceInfo => {
-  const { provider } = useWeb3();
+  const { readProvider: provider } = useWeb3();
   const { tokenInfo } = useERC20(tokenAddress);
 
   const [balanceRaw, setBalanceRaw] = useState<bigint>(0n);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<NormalizedError | null>(null);
 
   useEffect(() => {
     // Debug log for troubleshooting
@@ -92,13 +147,18 @@ export const useERC20Balance = (
         setLoading(true);
         setError(null);
 
-        const tokenContract = new Contract(tokenAddress, ERC20_ABI, provider);
-
         console.log(
           `📡 Fetching balance for ${account} on token ${tokenAddress}`,
         );
 
-        const balanceResult = await tokenContract.balanceOf(account);
+        const balanceResult = await batchRead<
+          ContractFunctionReturn<ERC20Abi, "balanceOf">
+        >(provider, {
+          target: tokenAddress,
+          iface: erc20Interface,
+          method: "balanceOf",
+          args: [account],
+        });
 
         console.log(`✅ Balance fetched:`, {
           raw: balanceResult.toString(),
@@ -109,7 +169,7 @@ export const useERC20Balance = (
         setBalanceRaw(balanceResult);
       } catch (err) {
         console.error("❌ Failed to fetch balance:", err);
-        setError(err instanceof Error ? err.message : "Unknown error");
+        setError(normalizeError(err, "Failed to load balance"));
         setBalanceRaw(0n);
       } finally {
         setLoading(false);
@@ -119,7 +179,7 @@ export const useERC20Balance = (
     fetchBalance();
 
     // Setup event listener for real-time updates
-    const tokenContract = new Contract(tokenAddress, ERC20_ABI, provider);
+    const tokenContract = getERC20Contract(tokenAddress, provider);
 
     const handleTransfer = (from: string, to: string, amount: bigint) => {
       console.log("🔄 Transfer event detected:", { from, to, amount });
@@ -149,15 +209,11 @@ export const useERC20Balance = (
     }
   }, [balanceRaw, tokenInfo]);
 
-  // Format display that is user-friendly
-  const balanceDisplay = useMemo(() => {
-    if (!tokenInfo) return "0.00";
-    const num = parseFloat(balanceFormatted);
-    if (num === 0) return "0.00";
-    if (num < 0.0001) return "< 0.0001";
-    if (num < 1) return num.toFixed(4);
-    return num.toLocaleString("en-US", { maximumFractionDigits: 6 });
-  }, [balanceFormatted, tokenInfo]);
+  // Display format, exact for any balance
+  const balanceDisplay = useMemo(
+    () => (tokenInfo ? formatTokenAmount(balanceRaw, tokenInfo.decimals) : "0"),
+    [balanceRaw, tokenInfo],
+  );
 
   return {
     balanceRaw,
@@ -169,23 +225,101 @@ export const useERC20Balance = (
   };
 };
 
+export interface WalletBalances {
+  eth: bigint | null; // null until loaded
+  tokens: Record<string, bigint>; // only tokens whose balance loaded
+  loading: boolean;
+  refresh: () => void; // re-read, e.g. after a transaction
+}
+
+/**
+ * ETH and token balances of `account` in one batch, e.g. for portfolio
+ * totals.
+ */
+export const useWalletBalances = (
+  tokenAddresses: string[],
+  account: string | null,
+): WalletBalances => {
+  const { readProvider: provider } = useWeb3();
+  const addressesKey = tokenAddresses.join(",");
+  const [balances, setBalances] = useState<{
+    key: string;
+    eth: bigint | null;
+    tokens: Record<string, bigint>;
+  } | null>(null);
+  const [nonce, setNonce] = useState(0);
+
+  const requestKey = `${account}:${addressesKey}`;
+
+  useEffect(() => {
+    if (!provider || !account) return;
+
+    let cancelled = false;
+    const addresses = addressesKey ? addressesKey.split(",") : [];
+
+    Promise.all([
+      provider.getBalance(account).catch((err) => {
+        console.error("Failed to fetch ETH balance:", err);
+        return null;
+      }),
+      Promise.all(
+        addresses.map((address) =>
+          batchRead<ContractFunctionReturn<ERC20Abi, "balanceOf">>(provider, {
+            target: address,
+            iface: erc20Interface,
+            method: "balanceOf",
+            args: [account],
+          }).then(
+            (balance) => [address, balance] as const,
+            (err) => {
+              console.error(`Failed to fetch balance of ${address}:`, err);
+              return null;
+            },
+          ),
+        ),
+      ),
+    ]).then(([eth, tokens]) => {
+      if (cancelled) return;
+      setBalances({
+        key: `${account}:${addressesKey}`,
+        eth,
+        tokens: Object.fromEntries(tokens.filter((entry) => entry !== null)),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, account, addressesKey, nonce]);
+
+  // Balances of a previous account or token set are never shown
+  const current = balances?.key === requestKey ? balances : null;
+  return {
+    eth: current?.eth ?? null,
+    tokens: current?.tokens ?? NO_BALANCES,
+    loading: !!account && !current,
+    refresh: () => setNonce((n) => n + 1),
+  };
+};
+
 export const useERC20Transfer = () => {
-  const { signer, account } = useWeb3();
+  const { signer, account, readProvider, chainId } = useWeb3();
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<NormalizedError | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   const transfer = async (
     tokenAddress: string,
     toAddress: string,
-    amount: string,
+    amountRaw: bigint,
     decimals: number,
+    feeTier: FeeTier = "normal",
   ): Promise<void> => {
-    if (!signer || !account) {
+    if (!signer || !account || !readProvider) {
       throw new Error("Wallet not connected");
     }
 
-    if (!tokenAddress || !toAddress || !amount) {
+    if (!tokenAddress || !toAddress || amountRaw <= 0n) {
       throw new Error("Invalid parameters");
     }
 
@@ -194,25 +328,26 @@ export const useERC20Transfer = () => {
       setError(null);
       setSuccess(null);
 
-      const tokenContract = new Contract(tokenAddress, ERC20_ABI, signer);
-
-      // Parse amount with correct decimals
-      const amountRaw = parseUnits(amount, decimals);
+      const tokenContract = getERC20Contract(tokenAddress, signer);
+      const fees = await getFeeOverrides(readProvider, feeTier);
 
       // Execute transfer
-      const tx = await tokenContract.transfer(toAddress, amountRaw);
-
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      const tx = await tokenContract.transfer(toAddress, amountRaw, fees);
+      if (chainId) rememberRecipient(chainId, toAddress);
+
+      // Wait for confirmation; tracked so it survives reloads and speed-ups
+      const receipt = await trackTransaction(tx, {
+        kind: "transfer",
+        token: tokenAddress,
+        amount: formatTokenAmount(amountRaw, decimals, {
+          maxFractionDigits: decimals,
+        }),
+      });
 
       setSuccess(`Transfer successful! Tx: ${receipt.hash}`);
-
-      return receipt;
     } catch (err) {
       console.error("Transfer failed:", err);
-      const errorMessage =
-        err instanceof Error ? err.message : "Transfer failed";
-      setError(errorMessage);
+      setError(normalizeError(err, "Transfer failed"));
       throw err;
     } finally {
       setLoading(false);
@@ -221,9 +356,12 @@ export const useERC20Transfer = () => {
 
   const transferETH = async (
     toAddress: string,
-    amount: string,
+    amountRaw: bigint,
+    feeTier: FeeTier = "normal",
+    // From getMaxETHAmount, when sending the amount it returned
+    reserved?: Pick<MaxETHAmount, "gasLimit" | "fees">,
   ): Promise<void> => {
-    if (!signer || !account) {
+    if (!signer || !account || !readProvider) {
       throw new Error("Wallet not connected");
     }
 
@@ -232,31 +370,116 @@ export const useERC20Transfer = () => {
       setError(null);
       setSuccess(null);
 
-      // Parse ETH amount
-      const amountRaw = parseUnits(amount, 18);
+      // Fresh fees could exceed the gas kept back for a Max amount
+      const overrides = reserved
+        ? { gasLimit: reserved.gasLimit, ...reserved.fees }
+        : await getFeeOverrides(readProvider, feeTier);
 
       // Execute ETH transfer
       const tx = await signer.sendTransaction({
         to: toAddress,
         value: amountRaw,
+        ...overrides,
       });
+      if (chainId) rememberRecipient(chainId, toAddress);
 
-      // Wait for transaction confirmation
-      const receipt = await tx.wait();
+      // Wait for confirmation; tracked so it survives reloads and speed-ups
+      const receipt = await trackTransaction(tx, {
+        kind: "transferETH",
+        amount: formatTokenAmount(amountRaw, 18, { maxFractionDigits: 18 }),
+      });
 
-      setSuccess(`ETH Transfer successful! Tx: ${receipt?.hash}`);
+      setSuccess(`ETH Transfer successful! Tx: ${receipt.hash}`);
 
       // return receipt;
     } catch (err) {
       console.error("ETH Transfer failed:", err);
-      const errorMessage =
-        err instanceof Error ? err.message : "ETH Transfer failed";
-      setError(errorMessage);
+      setError(normalizeError(err, "ETH Transfer failed"));
       throw err;
     } finally {
       setLoading(false);
     }
   };
 
-  return { transfer, transferETH, loading, error, success };
+  // Gas estimates for the fee preview; these throw when the call would revert
+  const estimateTransfer = async (
+    tokenAddress: string,
+    toAddress: string,
+    amountRaw: bigint,
+  ): Promise<GasEstimate> => {
+    if (!signer) {
+      throw new Error("Wallet not connected");
+    }
+
+    const tokenContract = getERC20Contract(tokenAddress, signer);
+    const call = await tokenContract.transfer.populateTransaction(
+      toAddress,
+      amountRaw,
+    );
+    return { gasLimit: await signer.estimateGas(call), calls: [call] };
+  };
+
+  const estimateTransferETH = async (
+    toAddress: string,
+    amountRaw: bigint,
+  ): Promise<GasEstimate> => {
+    if (!signer) {
+      throw new Error("Wallet not connected");
+    }
+
+    const call = { to: toAddress, value: amountRaw };
+    return { gasLimit: await signer.estimateGas(call), calls: [call] };
+  };
+
+  // Largest ETH amount that still leaves room for the transfer's own gas.
+  // Gas is priced at the tier's maxFeePerGas, which the wallet must cover,
+  // plus the L1 data fee on OP Stack chains. Pass the returned gas limit and
+  // fees to transferETH so the send stays within that reserve.
+  const getMaxETHAmount = async (
+    toAddress: string,
+    feeTier: FeeTier,
+  ): Promise<MaxETHAmount> => {
+    if (!signer || !account || !readProvider) {
+      throw new Error("Wallet not connected");
+    }
+
+    const [balance, gasLimit, quotes] = await Promise.all([
+      readProvider.getBalance(account),
+      // Contract recipients may need more than a plain transfer
+      isAddress(toAddress)
+        ? signer
+            .estimateGas({ to: toAddress, value: 1n })
+            .catch(() => ETH_TRANSFER_GAS)
+        : ETH_TRANSFER_GAS,
+      getFeeQuotes(readProvider),
+    ]);
+
+    const quote = quotes[feeTier];
+    const l1Fee = chainId
+      ? await getL1DataFee(readProvider, chainId, {
+          to: isAddress(toAddress) ? toAddress : account,
+          value: balance,
+          gasLimit,
+          fees: quote.overrides,
+        })
+      : 0n;
+
+    const maxAmount = balance - gasLimit * quote.maxFeePerGas - l1Fee;
+    return {
+      amount: maxAmount > 0n ? maxAmount : 0n,
+      gasLimit,
+      fees: quote.overrides,
+    };
+  };
+
+  return {
+    transfer,
+    transferETH,
+    estimateTransfer,
+    estimateTransferETH,
+    getMaxETHAmount,
+    loading,
+    error,
+    success,
+  };
 };
@@ -0,0 +1,99 @@
+import { useState, useEffect, useSyncExternalStore } from "react";
+import { isAddress } from "ethers";
+import { useWeb3 } from "./useWeb3";
+import {
+  getCachedEns,
+  isEnsName,
+  lookupEnsName,
+  resolveEnsName,
+  subscribeEns,
+} from "../utils/ens";
+import { normalizeError, type NormalizedError } from "../utils/errors";
+
+// Wait for the user to stop typing before resolving a name
+const RESOLVE_DEBOUNCE_MS = 400;
+
+// Verified primary ENS name of `address`, or null
+export const useEnsName = (address: string | null): string | null => {
+  const { readProvider, chainId } = useWeb3();
+  const name = useSyncExternalStore(subscribeEns, () =>
+    getCachedEns(chainId, "name", address),
+  );
+
+  useEffect(() => {
+    if (!readProvider || !chainId || !address || name !== undefined) return;
+
+    lookupEnsName(readProvider, chainId, address).catch((err) =>
+      console.warn(`Reverse ENS lookup failed for ${address}:`, err),
+    );
+  }, [readProvider, chainId, address, name]);
+
+  return name ?? null;
+};
+
+export interface Recipient {
+  address: string | null; // what to send to, once known
+  ensName: string | null; // set when the input was a name
+  loading: boolean;
+  notFound: boolean; // the name has no address
+  error: NormalizedError | null;
+}
+
+/**
+ * Turns a recipient field (hex address or ENS name) into an address.
+ * Names resolve after a short pause in typing.
+ */
+export const useRecipient = (input: string): Recipient => {
+  const { readProvider, chainId } = useWeb3();
+  const trimmed = input.trim();
+  const name = isEnsName(trimmed) ? trimmed : null;
+
+  const [settledName, setSettledName] = useState<string | null>(null);
+  const [failure, setFailure] = useState<{
+    name: string;
+    error: NormalizedError;
+  } | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettledName(name), RESOLVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [name]);
+
+  const resolved = useSyncExternalStore(subscribeEns, () =>
+    getCachedEns(chainId, "address", settledName),
+  );
+
+  useEffect(() => {
+    if (!readProvider || !chainId || !settledName || resolved !== undefined) {
+      return;
+    }
+
+    resolveEnsName(readProvider, chainId, settledName).catch((err) => {
+      console.error(`Failed to resolve ${settledName}:`, err);
+      setFailure({
+        name: settledName,
+        error: normalizeError(err, "Could not resolve ENS name"),
+      });
+    });
+  }, [readProvider, chainId, settledName, resolved]);
+
+  if (!name) {
+    return {
+      address: isAddress(trimmed) ? trimmed : null,
+      ensName: null,
+      loading: false,
+      notFound: false,
+      error: null,
+    };
+  }
+
+  const settled = settledName === name;
+  const error = settled && failure?.name === name ? failure.error : null;
+  return {
+    address: settled ? (resolved ?? null) : null,
+    ensName: name,
+    loading: !settled || (resolved === undefined && !error),
+    notFound: settled && resolved === null,
+    error,
+  };
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef } from "react";
+import { useWeb3 } from "./useWeb3";
+import {
+  getFeeQuotes,
+  getL1DataFee,
+  type FeeQuote,
+  type FeeTier,
+  type GasEstimate,
+} from "../utils/fees";
+import { normalizeError, type NormalizedError } from "../utils/errors";
+
+// Wait for the user to stop typing before estimating
+const ESTIMATE_DEBOUNCE_MS = 400;
+
+export interface FeeEstimate {
+  gasLimit: bigint | null;
+  quotes: Record<FeeTier, FeeQuote> | null;
+  l1Fee: bigint; // L1 data fee on OP Stack chains, on top of gas; else 0
+  loading: boolean;
+  error: NormalizedError | null;
+}
+
+interface EstimateResult {
+  key: string;
+  gasLimit: bigint | null;
+  quotes: Record<FeeTier, FeeQuote> | null;
+  l1Fee: bigint;
+  error: NormalizedError | null;
+}
+
+/**
+ * Gas and fee quotes for the action the user is about to send. `key`
+ * identifies the action's inputs (token, amount, ...): a new estimate runs
+ * whenever it changes, and none runs while it is null.
+ */
+export const useFeeEstimate = (
+  key: string | null,
+  estimateGas: () => Promise<GasEstimate>,
+): FeeEstimate => {
+  const { readProvider, chainId } = useWeb3();
+  const [result, setResult] = useState<EstimateResult | null>(null);
+
+  // estimateGas is recreated every render and key captures its inputs, so
+  // the latest one is read through a ref rather than re-running the effect
+  const estimateRef = useRef(estimateGas);
+  useEffect(() => {
+    estimateRef.current = estimateGas;
+  });
+
+  useEffect(() => {
+    if (!readProvider || !key) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const [gas, quotes] = await Promise.allSettled([
+        estimateRef.current(),
+        getFeeQuotes(readProvider),
+      ]);
+
+      let failure =
+        gas.status === "rejected"
+          ? gas.reason
+          : quotes.status === "rejected"
+            ? quotes.reason
+            : null;
+
+      // The L1 fee barely depends on the tier, so one quote prices them all
+      let l1Fee = 0n;
+      if (gas.status === "fulfilled" && quotes.status === "fulfilled") {
+        try {
+          const fees = await Promise.all(
+            gas.value.calls.map((call) =>
+              chainId
+                ? getL1DataFee(readProvider, chainId, {
+                    ...call,
+                    gasLimit: gas.value.gasLimit,
+                    fees: quotes.value.normal.overrides,
+                  })
+                : 0n,
+            ),
+          );
+          l1Fee = fees.reduce((sum, fee) => sum + fee, 0n);
+        } catch (err) {
+          failure = err;
+        }
+      }
+      if (cancelled) return;
+
+      setResult({
+        key,
+        gasLimit: gas.status === "fulfilled" ? gas.value.gasLimit : null,
+        quotes: quotes.status === "fulfilled" ? quotes.value : null,
+        l1Fee,
+        error: failure ? normalizeError(failure, "Estimation failed") : null,
+      });
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [readProvider, chainId, key]);
+
+  const current = key && result?.key === key ? result : null;
+
+  return {
+    gasLimit: current?.gasLimit ?? null,
+    quotes: current?.quotes ?? null,
+    l1Fee: current?.l1Fee ?? 0n,
+    loading: !!key && !current,
+    error: current?.error ?? null,
+  };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useWeb3 } from "./useWeb3";
+import {
+  fetchPrice,
+  getCachedPrices,
+  subscribePrices,
+  type PriceQuote,
+} from "../utils/prices";
+
+// Feeds move slowly; this only keeps long-open tabs roughly current
+const REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * USD quotes for several assets (token addresses or NATIVE_ASSET). Assets
+ * without a configured feed, or whose feed failed, map to undefined.
+ */
+export const usePrices = (
+  assets: string[],
+): Record<string, PriceQuote | undefined> => {
+  const { readProvider: provider, chainId } = useWeb3();
+  const prices = useSyncExternalStore(subscribePrices, () =>
+    getCachedPrices(chainId, assets),
+  );
+  const assetsKey = assets.join(",");
+
+  useEffect(() => {
+    if (!provider || !chainId || !assetsKey) return;
+
+    const refresh = () =>
+      assetsKey.split(",").forEach((asset) => {
+        fetchPrice(provider, chainId, asset).catch((err) =>
+          console.error(`Failed to fetch USD price for ${asset}:`, err),
+        );
+      });
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [provider, chainId, assetsKey]);
+
+  return prices;
+};
@@ -0,0 +1,81 @@
+import { useState, useEffect, useSyncExternalStore } from "react";
+import { useWeb3 } from "./useWeb3";
+import {
+  checkRecipient,
+  checkRecipientCode,
+  getPastRecipients,
+  subscribeRecipients,
+  type RecipientIssue,
+} from "../utils/recipientChecks";
+
+export interface RecipientChecks {
+  errors: RecipientIssue[];
+  warnings: RecipientIssue[];
+  checking: boolean; // the on-chain code check is still running
+}
+
+/**
+ * Safety checks for a transfer recipient: typos, burn addresses, this
+ * network's own contracts, lookalikes of past recipients and, once the
+ * address is known, whether it is a contract.
+ */
+export const useRecipientChecks = (params: {
+  input: string;
+  address: string | null;
+  token: string | null;
+  vaultAddress: string | null;
+  knownContracts: Record<string, string>;
+}): RecipientChecks => {
+  const { readProvider, chainId, activeAddress } = useWeb3();
+  const { input, address, token, vaultAddress, knownContracts } = params;
+  const pastRecipients = useSyncExternalStore(subscribeRecipients, () =>
+    getPastRecipients(chainId),
+  );
+  // code is null when the lookup failed; the other checks still apply
+  const [code, setCode] = useState<{
+    address: string;
+    code: string | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!readProvider || !address) return;
+
+    let cancelled = false;
+    readProvider
+      .getCode(address)
+      .then((result) => {
+        if (!cancelled) setCode({ address, code: result });
+      })
+      .catch((err) => {
+        console.warn(`getCode failed for ${address}:`, err);
+        if (!cancelled) setCode({ address, code: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [readProvider, address]);
+
+  // Cheap enough to run on every render
+  const issues = checkRecipient({
+    input,
+    address,
+    account: activeAddress,
+    token,
+    vaultAddress,
+    knownContracts,
+    pastRecipients,
+  });
+  const codeChecked = !!address && code?.address === address;
+  const codeIssue =
+    codeChecked && code.code !== null
+      ? checkRecipientCode(code.code, !token)
+      : null;
+  if (codeIssue) issues.push(codeIssue);
+
+  return {
+    errors: issues.filter((issue) => issue.severity === "error"),
+    warnings: issues.filter((issue) => issue.severity === "warning"),
+    checking: !!address && !codeChecked,
+  };
+};
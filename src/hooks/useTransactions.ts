@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo, useSyncExternalStore } from "react";
+import { useWeb3 } from "./useWeb3";
+import {
+  clearFinishedTransactions,
+  getTransactions,
+  resumePendingTransactions,
+  subscribeTransactions,
+  type TrackedTransaction,
+} from "../utils/transactionManager";
+
+export interface TransactionWithConfirmations extends TrackedTransaction {
+  confirmations: number;
+}
+
+export const useTransactions = () => {
+  const { readProvider, chainId } = useWeb3();
+  const allTransactions = useSyncExternalStore(
+    subscribeTransactions,
+    getTransactions,
+  );
+  const [blockNumber, setBlockNumber] = useState<number | null>(null);
+
+  const chainTransactions = useMemo(
+    () => allTransactions.filter((tx) => tx.chainId === chainId),
+    [allTransactions, chainId],
+  );
+  const hasTransactions = chainTransactions.length > 0;
+
+  // Keep watching transactions that were pending when the page was closed
+  useEffect(() => {
+    if (!readProvider || !chainId) return;
+    resumePendingTransactions(readProvider, chainId);
+  }, [readProvider, chainId]);
+
+  // Follow new blocks only while there is something to count confirmations for
+  useEffect(() => {
+    if (!readProvider || !hasTransactions) return;
+
+    const handleBlock = (block: number) => setBlockNumber(block);
+    readProvider
+      .getBlockNumber()
+      .then(handleBlock)
+      .catch(() => {});
+    readProvider.on("block", handleBlock);
+
+    return () => {
+      readProvider.off("block", handleBlock);
+    };
+  }, [readProvider, hasTransactions]);
+
+  const transactions = useMemo<TransactionWithConfirmations[]>(
+    () =>
+      chainTransactions.map((tx) => ({
+        ...tx,
+        confirmations:
+          tx.blockNumber !== undefined && blockNumber !== null
+            ? Math.max(0, blockNumber - tx.blockNumber + 1)
+            : 0,
+      })),
+    [chainTransactions, blockNumber],
+  );
+
+  const clearFinished = () => {
+    if (chainId) clearFinishedTransactions(chainId);
+  };
+
+  return {
+    transactions,
+    pendingCount: transactions.filter((tx) => tx.status === "pending").length,
+    clearFinished,
+  };
+};
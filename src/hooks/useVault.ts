@@ -1,98 +1,345 @@
-import { useState, useEffect } from "react";
-import { Contract, parseUnits } from "ethers";
-import { VAULT_ABI } from "../contracts/vaultABI";
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import {
+  Interface,
+  MaxUint256,
+  formatUnits,
+  getAddress,
+  isAddress,
+  type ContractTransactionResponse,
+  type Signer,
+} from "ethers";
+import {
+  VAULT_ABI,
+  getVaultContract,
+  type VaultAbi,
+  type VaultContract,
+} from "../contracts/vaultABI";
+import { getERC20Contract, type ERC20Contract } from "../contracts/erc20ABI";
+import type {
+  ContractFunctionArgs,
+  ContractFunctionReturn,
+  ViewFunctionNames,
+} from "../contracts/typedContract";
 import { useWeb3 } from "./useWeb3";
 import { getContractAddresses } from "../contracts/addresses";
+import { batchRead } from "../utils/multicall";
+import { fetchTokenInfo } from "../utils/tokenRegistry";
+import { formatTokenAmount } from "../utils/format";
+import {
+  getImportedTokens,
+  subscribeImportedTokens,
+} from "../utils/importedTokens";
+import { getPermitDomain, signPermit } from "../utils/permit";
+import {
+  getTransactions,
+  subscribeTransactions,
+  trackTransaction,
+  type TransactionMeta,
+} from "../utils/transactionManager";
+import {
+  getFeeOverrides,
+  type FeeOverrides,
+  type FeeTier,
+  type GasEstimate,
+} from "../utils/fees";
+import type { TokenInfo } from "./useERC20";
+
+const vaultInterface = new Interface(VAULT_ABI);
 
 export interface VaultBalance {
   tokenAddress: string;
+  symbol: string;
+  decimals: number;
   balanceRaw: bigint;
-  balanceFormatted: string;
+  balanceFormatted: string; // exact decimal string in token units
 }
 
+// How long a signed permit stays valid
+const PERMIT_TTL_SECONDS = 20 * 60;
+
+// A deposit cannot be simulated before the vault is approved, so fee
+// previews use typical gas usage for that part of the flow
+const DEPOSIT_GAS_FALLBACK = 120_000n;
+const DEPOSIT_WITH_PERMIT_GAS_FALLBACK = 160_000n;
+
+// Stands in for the permit signature when sizing the transaction; non-zero
+// bytes, like a real signature, so the L1 data fee is not understated
+const PLACEHOLDER_SIGNATURE_WORD = `0x${"ff".repeat(32)}`;
+
+// "exact" approves only the deposit amount, "unlimited" approves MaxUint256
+// so later deposits of the same token need no approval at all
+export type ApprovalMode = "exact" | "unlimited";
+
+export type DepositStep =
+  | "idle"
+  | "checking-allowance"
+  | "resetting-allowance" // USDT-style tokens need allowance set to 0 first
+  | "approving"
+  | "signing-permit" // EIP-2612 signature instead of an approve tx
+  | "depositing";
+
 export const useVault = () => {
-  const { provider, signer, account, chainId } = useWeb3();
-  const [vaultContract, setVaultContract] = useState<Contract | null>(null);
-  const [vaultAddress, setVaultAddress] = useState<string>("");
+  const { readProvider, signer, account, activeAddress, chainId } = useWeb3();
+  // Chains without a valid vault address get no vault at all, rather than
+  // another network's
+  const addresses = chainId ? getContractAddresses(chainId) : null;
+  const vaultAddress =
+    addresses?.status === "configured" ? addresses.vaultAddress : "";
+  const vaultUnconfigured =
+    addresses?.status === "unconfigured" ? addresses.reason : null;
+
+  // Read-only instance; writes reconnect it to the signer
+  const vaultContract = useMemo<VaultContract | null>(
+    () =>
+      readProvider && vaultAddress
+        ? getVaultContract(vaultAddress, readProvider)
+        : null,
+    [readProvider, vaultAddress],
+  );
   const [isPaused, setIsPaused] = useState(false);
+  const [owner, setOwner] = useState<string | null>(null);
+  const [tokenSupport, setTokenSupport] = useState<{
+    vaultAddress: string;
+    supported: Record<string, boolean>;
+  } | null>(null);
   const [loading, setLoading] = useState(false);
+  const [depositStep, setDepositStep] = useState<DepositStep>("idle");
+
+  // Vault reads are batched with other reads into one Multicall3 eth_call
+  const readVault = useCallback(
+    <N extends ViewFunctionNames<VaultAbi>>(
+      method: N,
+      args: ContractFunctionArgs<VaultAbi, N>,
+    ): Promise<ContractFunctionReturn<VaultAbi, N>> => {
+      if (!readProvider || !vaultAddress) {
+        return Promise.reject(new Error("Vault not available"));
+      }
+      return batchRead<ContractFunctionReturn<VaultAbi, N>>(readProvider, {
+        target: vaultAddress,
+        iface: vaultInterface,
+        method,
+        args,
+      });
+    },
+    [readProvider, vaultAddress],
+  );
+
+  // Fetch vault paused state and owner
+  const refreshVaultState = useCallback(async () => {
+    const [paused, vaultOwner] = await Promise.allSettled([
+      readVault("paused", []),
+      readVault("owner", []),
+    ]);
+
+    if (paused.status === "fulfilled") {
+      setIsPaused(paused.value);
+    } else {
+      console.error("Failed to fetch paused state:", paused.reason);
+    }
+    // Vaults without owner() simply get no admin console
+    setOwner(vaultOwner.status === "fulfilled" ? vaultOwner.value : null);
+  }, [readVault]);
 
   useEffect(() => {
-    if (!provider || !chainId) return;
+    if (!readProvider || !vaultAddress) return;
+    refreshVaultState();
+  }, [readProvider, vaultAddress, refreshVaultState]);
+
+  // Candidate tokens: the configured and user-imported ones plus any an
+  // owner added or removed from this app. The vault emits no token events
+  // to replay, so each one is checked against supportedTokens(address)
+  // instead.
+  const transactions = useSyncExternalStore(
+    subscribeTransactions,
+    getTransactions,
+  );
+  const importedTokens = useSyncExternalStore(subscribeImportedTokens, () =>
+    getImportedTokens(chainId),
+  );
+  const candidatesKey = useMemo(() => {
+    if (!chainId || !vaultAddress) return "";
+    const configured: string[] = Object.values(
+      getContractAddresses(chainId).supportedTokens,
+    );
+    const adminTokens = transactions.flatMap((tx) =>
+      tx.chainId === chainId &&
+      tx.status === "confirmed" &&
+      (tx.kind === "addToken" || tx.kind === "removeToken") &&
+      tx.token
+        ? [tx.token]
+        : [],
+    );
+    return [
+      ...new Set(
+        [...configured, ...importedTokens, ...adminTokens]
+          .filter((address) => isAddress(address))
+          .map((address) => getAddress(address)),
+      ),
+    ].join(",");
+  }, [chainId, vaultAddress, importedTokens, transactions]);
 
-    const addresses = getContractAddresses(chainId);
-    setVaultAddress(addresses.vaultAddress);
+  const refreshTokenSupport = useCallback(async () => {
+    if (!candidatesKey) return;
 
-    const contract = new Contract(addresses.vaultAddress, VAULT_ABI, provider);
-    setVaultContract(contract);
-  }, [provider, chainId]);
+    const candidates = candidatesKey.split(",");
+    const results = await Promise.allSettled(
+      candidates.map((token) => readVault("supportedTokens", [token])),
+    );
+    setTokenSupport({
+      vaultAddress,
+      supported: Object.fromEntries(
+        results.flatMap((result, i) =>
+          result.status === "fulfilled" ? [[candidates[i], result.value]] : [],
+        ),
+      ),
+    });
+  }, [candidatesKey, readVault, vaultAddress]);
 
-  // Fetch vault paused state
   useEffect(() => {
-    if (!vaultContract) return;
-
-    const fetchPausedState = async () => {
-      try {
-        const paused = await vaultContract.paused();
-        setIsPaused(paused);
-      } catch (err) {
-        console.error("Failed to fetch paused state:", err);
-      }
-    };
+    if (!readProvider || !vaultAddress) return;
+    refreshTokenSupport();
+  }, [readProvider, vaultAddress, refreshTokenSupport]);
+
+  const supported =
+    tokenSupport?.vaultAddress === vaultAddress ? tokenSupport.supported : {};
+  // All candidates stay listed so balances of since-removed tokens can still
+  // be withdrawn; rejectedTokens marks the ones deposits would fail for
+  const vaultTokens = candidatesKey ? candidatesKey.split(",") : [];
+  const rejectedTokens = vaultTokens.filter(
+    (token) => supported[token] === false,
+  );
 
-    fetchPausedState();
-  }, [vaultContract]);
+  // Admin actions need the connected wallet itself, not a watched address
+  const isOwner =
+    !!account && !!owner && owner.toLowerCase() === account.toLowerCase();
+
+  const vaultWithSigner = (runner: Signer) =>
+    getVaultContract(vaultAddress, runner);
+
+  // Decimals and name come from the token contract, never from a token list;
+  // amounts are never assumed 18-decimal
+  const getTokenInfo = (tokenAddress: string): Promise<TokenInfo> => {
+    if (!readProvider || !chainId) {
+      return Promise.reject(new Error("Wallet not connected"));
+    }
+    return fetchTokenInfo(readProvider, chainId, tokenAddress);
+  };
 
   // Get user balance for specific token
   const getUserBalance = async (tokenAddress: string): Promise<bigint> => {
-    if (!vaultContract || !account) {
+    if (!vaultContract || !activeAddress) {
       return 0n;
     }
 
     try {
-      const balance = await vaultContract.getUserBalance(account, tokenAddress);
-      return BigInt(balance);
+      return await readVault("getUserBalance", [activeAddress, tokenAddress]);
     } catch (err) {
       console.error("Failed to get vault balance:", err);
       return 0n;
     }
-  }; // Get user balance for specific token with decimals
+  };
 
-  // Update getAllBalances to include decimals
+  // Vault balances with each token's symbol and decimals applied
   const getAllBalances = async (
     tokenAddresses: string[],
   ): Promise<VaultBalance[]> => {
-    if (!vaultContract || !account) {
+    if (!vaultContract || !activeAddress) {
       return [];
     }
 
-    try {
-      const balances = await Promise.all(
-        tokenAddresses.map(async (tokenAddress) => {
-          const balanceRaw = await vaultContract.getUserBalance(
-            account,
-            tokenAddress,
-          );
-          return {
-            tokenAddress,
-            balanceRaw,
-            balanceFormatted: balanceRaw.toString(),
-          };
-        }),
-      );
-      return balances;
-    } catch (err) {
-      console.error("Failed to get all balances:", err);
-      return [];
+    // All tokens go out in one batch; a failing token is skipped, not fatal
+    const results = await Promise.allSettled(
+      tokenAddresses.map((tokenAddress) =>
+        Promise.all([
+          readVault("getUserBalance", [activeAddress, tokenAddress]),
+          getTokenInfo(tokenAddress),
+        ]),
+      ),
+    );
+
+    return results.flatMap((result, i) => {
+      if (result.status === "rejected") {
+        console.error(
+          `Failed to get vault balance for ${tokenAddresses[i]}:`,
+          result.reason,
+        );
+        return [];
+      }
+      const [balanceRaw, { symbol, decimals }] = result.value;
+      return [
+        {
+          tokenAddress: tokenAddresses[i],
+          symbol,
+          decimals,
+          balanceRaw,
+          balanceFormatted: formatUnits(balanceRaw, decimals),
+        },
+      ];
+    });
+  };
+
+  // Raise the vault's allowance to cover the deposit with an approve tx
+  const approveVault = async (
+    tokenContract: ERC20Contract,
+    allowance: bigint,
+    amountRaw: bigint,
+    amount: string,
+    approvalMode: ApprovalMode,
+    fees: FeeOverrides,
+  ) => {
+    const tokenAddress = await tokenContract.getAddress();
+    const approveAmount = approvalMode === "unlimited" ? MaxUint256 : amountRaw;
+
+    // Tokens like USDT revert when changing a non-zero allowance to another
+    // non-zero value. Simulate first and reset to zero only when needed.
+    if (allowance > 0n) {
+      const needsReset = await tokenContract.approve
+        .estimateGas(vaultAddress, approveAmount)
+        .then(() => false)
+        .catch(() => true);
+
+      if (needsReset) {
+        setDepositStep("resetting-allowance");
+        const resetTx = await tokenContract.approve(vaultAddress, 0n, fees);
+        await trackTransaction(resetTx, {
+          kind: "approve",
+          token: tokenAddress,
+          amount: "0",
+        });
+      }
     }
+
+    setDepositStep("approving");
+    const approveTx = await tokenContract.approve(
+      vaultAddress,
+      approveAmount,
+      fees,
+    );
+    await trackTransaction(approveTx, {
+      kind: "approve",
+      token: tokenAddress,
+      amount: approvalMode === "unlimited" ? "unlimited" : amount,
+    });
   };
 
   // Deposit tokens to vault
   const deposit = async (
     tokenAddress: string,
-    amount: string,
+    amountRaw: bigint,
+    approvalMode: ApprovalMode = "exact",
+    feeTier: FeeTier = "normal",
   ): Promise<void> => {
-    if (!signer || !vaultContract || !account) {
+    if (vaultUnconfigured) {
+      throw new Error(vaultUnconfigured);
+    }
+
+    if (!signer || !vaultContract || !readProvider || !chainId) {
       throw new Error("Wallet not connected");
     }
 
@@ -103,35 +350,122 @@ export const useVault = () => {
     try {
       setLoading(true);
 
-      // First, approve vault to spend tokens
-      const tokenContract = new Contract(
-        tokenAddress,
-        ["function approve(address spender, uint256 amount) returns (bool)"],
-        signer,
-      );
+      const { name, decimals } = await getTokenInfo(tokenAddress);
+      const amount = formatTokenAmount(amountRaw, decimals, {
+        maxFractionDigits: decimals,
+      });
+      const owner = await signer.getAddress();
+      const tokenContract = getERC20Contract(tokenAddress, signer);
+      const fees = await getFeeOverrides(readProvider, feeTier);
 
-      const amountRaw = parseUnits(amount, 18); // Adjust decimals as needed
+      setDepositStep("checking-allowance");
+      const allowance = await tokenContract.allowance(owner, vaultAddress);
 
-      const approveTx = await tokenContract.approve(vaultAddress, amountRaw);
-      await approveTx.wait();
+      if (allowance < amountRaw) {
+        const permitDomain = await getPermitDomain(
+          readProvider,
+          chainId,
+          tokenAddress,
+          name,
+          owner,
+        );
+
+        // A permit signature replaces the approve transaction. The vault
+        // permits exactly the deposited amount, so approvalMode is moot here.
+        if (permitDomain) {
+          setDepositStep("signing-permit");
+          const deadline = BigInt(
+            Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS,
+          );
+          const { v, r, s } = await signPermit(
+            signer,
+            readProvider,
+            permitDomain,
+            {
+              token: tokenAddress,
+              owner,
+              spender: vaultAddress,
+              value: amountRaw,
+              deadline,
+            },
+          );
+
+          // Simulate first: a token whose permit differs from EIP-2612 in
+          // ways detection cannot see would revert, so approve instead
+          const vault = vaultWithSigner(signer);
+          const permitArgs = [
+            tokenAddress,
+            amountRaw,
+            deadline,
+            v,
+            r,
+            s,
+          ] as const;
+          const permitWorks = await vault.depositWithPermit
+            .staticCall(...permitArgs)
+            .then(() => true)
+            .catch((err) => {
+              console.warn("⚠️ depositWithPermit would fail, approving:", err);
+              return false;
+            });
+
+          if (permitWorks) {
+            setDepositStep("depositing");
+            const depositTx = await vault.depositWithPermit(
+              ...permitArgs,
+              fees,
+            );
+            await trackTransaction(depositTx, {
+              kind: "deposit",
+              token: tokenAddress,
+              amount,
+            });
+            return;
+          }
+        }
+
+        await approveVault(
+          tokenContract,
+          allowance,
+          amountRaw,
+          amount,
+          approvalMode,
+          fees,
+        );
+      }
 
       // Then deposit to vault
-      const depositTx = await vaultContract.deposit(tokenAddress, amountRaw);
-      await depositTx.wait();
+      setDepositStep("depositing");
+      const depositTx = await vaultWithSigner(signer).deposit(
+        tokenAddress,
+        amountRaw,
+        fees,
+      );
+      await trackTransaction(depositTx, {
+        kind: "deposit",
+        token: tokenAddress,
+        amount,
+      });
     } catch (err) {
       console.error("Deposit failed:", err);
       throw err;
     } finally {
       setLoading(false);
+      setDepositStep("idle");
     }
   };
 
   // Withdraw tokens from vault
   const withdraw = async (
     tokenAddress: string,
-    amount: string,
+    amountRaw: bigint,
+    feeTier: FeeTier = "normal",
   ): Promise<void> => {
-    if (!signer || !vaultContract || !account) {
+    if (vaultUnconfigured) {
+      throw new Error(vaultUnconfigured);
+    }
+
+    if (!signer || !vaultContract || !readProvider) {
       throw new Error("Wallet not connected");
     }
 
@@ -142,10 +476,21 @@ export const useVault = () => {
     try {
       setLoading(true);
 
-      const amountRaw = parseUnits(amount, 18); // Adjust decimals as needed
+      const { decimals } = await getTokenInfo(tokenAddress);
+      const fees = await getFeeOverrides(readProvider, feeTier);
 
-      const withdrawTx = await vaultContract.withdraw(tokenAddress, amountRaw);
-      await withdrawTx.wait();
+      const withdrawTx = await vaultWithSigner(signer).withdraw(
+        tokenAddress,
+        amountRaw,
+        fees,
+      );
+      await trackTransaction(withdrawTx, {
+        kind: "withdraw",
+        token: tokenAddress,
+        amount: formatTokenAmount(amountRaw, decimals, {
+          maxFractionDigits: decimals,
+        }),
+      });
     } catch (err) {
       console.error("Withdraw failed:", err);
       throw err;
@@ -154,14 +499,186 @@ export const useVault = () => {
     }
   };
 
+  // Gas a deposit would use right now, including any approval it needs
+  const estimateDeposit = async (
+    tokenAddress: string,
+    amountRaw: bigint,
+  ): Promise<GasEstimate> => {
+    if (!signer || !readProvider || !chainId) {
+      throw new Error("Wallet not connected");
+    }
+
+    const { name } = await getTokenInfo(tokenAddress);
+    const owner = await signer.getAddress();
+    const tokenContract = getERC20Contract(tokenAddress, signer);
+    const vault = vaultWithSigner(signer);
+
+    const allowance = await tokenContract.allowance(owner, vaultAddress);
+    if (allowance >= amountRaw) {
+      const call = await vault.deposit.populateTransaction(
+        tokenAddress,
+        amountRaw,
+      );
+      return { gasLimit: await signer.estimateGas(call), calls: [call] };
+    }
+
+    const permitDomain = await getPermitDomain(
+      readProvider,
+      chainId,
+      tokenAddress,
+      name,
+      owner,
+    );
+    if (permitDomain) {
+      const call = await vault.depositWithPermit.populateTransaction(
+        tokenAddress,
+        amountRaw,
+        BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS),
+        27,
+        PLACEHOLDER_SIGNATURE_WORD,
+        PLACEHOLDER_SIGNATURE_WORD,
+      );
+      return { gasLimit: DEPOSIT_WITH_PERMIT_GAS_FALLBACK, calls: [call] };
+    }
+
+    const approveCall = await tokenContract.approve.populateTransaction(
+      vaultAddress,
+      amountRaw,
+    );
+    const depositCall = await vault.deposit.populateTransaction(
+      tokenAddress,
+      amountRaw,
+    );
+    return {
+      gasLimit: (await signer.estimateGas(approveCall)) + DEPOSIT_GAS_FALLBACK,
+      calls: [approveCall, depositCall],
+    };
+  };
+
+  const estimateWithdraw = async (
+    tokenAddress: string,
+    amountRaw: bigint,
+  ): Promise<GasEstimate> => {
+    if (!signer) {
+      throw new Error("Wallet not connected");
+    }
+
+    const call = await vaultWithSigner(signer).withdraw.populateTransaction(
+      tokenAddress,
+      amountRaw,
+    );
+    return { gasLimit: await signer.estimateGas(call), calls: [call] };
+  };
+
+  // Owner-only operations; the vault itself rejects anyone else
+  const sendAdminTransaction = async (
+    meta: TransactionMeta,
+    send: (
+      vault: VaultContract,
+      fees: FeeOverrides,
+    ) => Promise<ContractTransactionResponse>,
+    feeTier: FeeTier,
+  ): Promise<void> => {
+    if (!signer || !readProvider) {
+      throw new Error("Wallet not connected");
+    }
+
+    try {
+      setLoading(true);
+
+      const fees = await getFeeOverrides(readProvider, feeTier);
+      const tx = await send(vaultWithSigner(signer), fees);
+      await trackTransaction(tx, meta);
+      await Promise.all([refreshVaultState(), refreshTokenSupport()]);
+    } catch (err) {
+      console.error(`Admin ${meta.kind} failed:`, err);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addSupportedToken = (
+    tokenAddress: string,
+    feeTier: FeeTier = "normal",
+  ) =>
+    sendAdminTransaction(
+      { kind: "addToken", token: tokenAddress },
+      (vault, fees) => vault.addSupportedToken(tokenAddress, fees),
+      feeTier,
+    );
+
+  const removeSupportedToken = (
+    tokenAddress: string,
+    feeTier: FeeTier = "normal",
+  ) =>
+    sendAdminTransaction(
+      { kind: "removeToken", token: tokenAddress },
+      (vault, fees) => vault.removeSupportedToken(tokenAddress, fees),
+      feeTier,
+    );
+
+  const pauseVault = (feeTier: FeeTier = "normal") =>
+    sendAdminTransaction(
+      { kind: "pause" },
+      (vault, fees) => vault.pause(fees),
+      feeTier,
+    );
+
+  const unpauseVault = (feeTier: FeeTier = "normal") =>
+    sendAdminTransaction(
+      { kind: "unpause" },
+      (vault, fees) => vault.unpause(fees),
+      feeTier,
+    );
+
+  // Moves tokens out of the vault to any recipient, bypassing user balances
+  const emergencyWithdraw = async (
+    tokenAddress: string,
+    amountRaw: bigint,
+    recipient: string,
+    feeTier: FeeTier = "normal",
+  ): Promise<void> => {
+    if (!isAddress(recipient)) {
+      throw new Error("Invalid recipient address");
+    }
+
+    const { decimals } = await getTokenInfo(tokenAddress);
+    return sendAdminTransaction(
+      {
+        kind: "emergencyWithdraw",
+        token: tokenAddress,
+        amount: formatTokenAmount(amountRaw, decimals, {
+          maxFractionDigits: decimals,
+        }),
+      },
+      (vault, fees) =>
+        vault.emergencyWithdraw(tokenAddress, amountRaw, recipient, fees),
+      feeTier,
+    );
+  };
+
   return {
     vaultContract,
     vaultAddress,
+    vaultUnconfigured,
     isPaused,
+    owner,
+    isOwner,
+    vaultTokens,
+    rejectedTokens,
     getUserBalance,
     getAllBalances,
     deposit,
+    depositStep,
     withdraw,
+    estimateDeposit,
+    estimateWithdraw,
+    addSupportedToken,
+    removeSupportedToken,
+    pauseVault,
+    unpauseVault,
+    emergencyWithdraw,
     loading,
   };
 };
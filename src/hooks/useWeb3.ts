@@ -1,13 +1,11 @@
-import { useState, useEffect } from "react";
-import { BrowserProvider, JsonRpcSigner, Network } from "ethers";
+import { useContext } from "react";
+import {
+  Web3Context,
+  type NetworkInfo,
+  type Web3ContextValue,
+} from "../context/Web3Context";
 
-interface NetworkInfo {
-  chainId: number;
-  name: string;
-  nativeCurrency: string;
-  explorerUrl: string;
-  isSupported: boolean;
-}
+export type { NetworkInfo };
 
 export const SUPPORTED_NETWORKS: Record<number, NetworkInfo> = {
   1: {
@@ -37,6 +35,7 @@ export const SUPPORTED_NETWORKS: Record<number, NetworkInfo> = {
     nativeCurrency: "ETH",
     explorerUrl: "https://basescan.org",
     isSupported: false,
+    opStack: true,
   },
   84532: {
     chainId: 84532,
@@ -44,191 +43,45 @@ export const SUPPORTED_NETWORKS: Record<number, NetworkInfo> = {
     nativeCurrency: "ETH",
     explorerUrl: "https://base-sepolia.blockscout.com",
     isSupported: false,
+    opStack: true,
   },
 };
 
-interface Web3Context {
-  provider: BrowserProvider | null;
-  signer: JsonRpcSigner | null;
-  account: string | null;
-  chainId: number | null;
-  network: NetworkInfo | null;
-  isConnected: boolean;
-  connectWallet: () => Promise<void>;
-  disconnectWallet: () => void;
-  switchNetwork: (chainId: number) => Promise<void>;
-}
-
-export const useWeb3 = (): Web3Context => {
-  const [provider, setProvider] = useState<BrowserProvider | null>(null);
-  const [signer, setSigner] = useState<JsonRpcSigner | null>(null);
-  const [account, setAccount] = useState<string | null>(null);
-  const [chainId, setChainId] = useState<number | null>(null);
-  const [network, setNetwork] = useState<NetworkInfo | null>(null);
-
-  useEffect(() => {
-    if (typeof window !== "undefined" && (window as any).ethereum) {
-      const ethereumProvider = new BrowserProvider((window as any).ethereum);
-      setProvider(ethereumProvider);
-
-      // Get initial account and chainId
-      ethereumProvider.getSigner().then((s) => {
-        s.getAddress()
-          .then(setAccount)
-          .catch(() => {});
-      });
-      ethereumProvider.getNetwork().then(updateNetworkInfo);
-    }
-  }, []);
-
-  const updateNetworkInfo = async (networkData: Network) => {
-    const chainIdNum = Number(networkData.chainId);
-    setChainId(chainIdNum);
-
-    const networkInfo = SUPPORTED_NETWORKS[chainIdNum] || {
-      chainId: chainIdNum,
-      name: `Chain ${chainIdNum}`,
-      nativeCurrency: "ETH",
-      explorerUrl: "#",
-      isSupported: false,
-    };
-
-    setNetwork(networkInfo);
-  };
-
-  useEffect(() => {
-    const handleAccountsChanged = (accounts: string[]) => {
-      console.log("🔄 Accounts changed:", accounts);
-      setAccount(accounts[0] || null);
-    };
-
-    const handleChainChanged = (chainIdHex: string) => {
-      const newChainId = Number(chainIdHex);
-      console.log("🔄 Chain changed:", {
-        oldChainId: chainId,
-        newChainId,
-        hex: chainIdHex,
-      });
-      setChainId(newChainId);
-
-      // Update network info
-      const networkInfo = SUPPORTED_NETWORKS[newChainId] || {
-        chainId: newChainId,
-        name: `Chain ${newChainId}`,
-        nativeCurrency: "ETH",
-        explorerUrl: "#",
-        isSupported: false,
-      };
-      setNetwork(networkInfo);
-    };
-
-    if ((window as any).ethereum) {
-      (window as any).ethereum.on("accountsChanged", handleAccountsChanged);
-      (window as any).ethereum.on("chainChanged", handleChainChanged);
-
-      // Initial check
-      console.log("🔌 Web3 initialized:", {
-        hasEthereum: !!(window as any).ethereum,
-        initialAccount: account,
-        initialChainId: chainId,
-      });
-    }
-
-    return () => {
-      if ((window as any).ethereum) {
-        (window as any).ethereum.removeListener(
-          "accountsChanged",
-          handleAccountsChanged,
-        );
-        (window as any).ethereum.removeListener(
-          "chainChanged",
-          handleChainChanged,
-        );
-      }
-    };
-  }, []);
-
-  const connectWallet = async () => {
-    if (!provider) throw new Error("MetaMask not detected");
-
-    try {
-      const accounts = await provider.send("eth_requestAccounts", []);
-      const networkData = await provider.getNetwork();
-      const signer = await provider.getSigner();
-
-      setSigner(signer);
-      setAccount(accounts[0]);
-      updateNetworkInfo(networkData);
-    } catch (error) {
-      console.error("Failed to connect wallet:", error);
-      throw error;
-    }
-  };
-
-  const disconnectWallet = () => {
-    setSigner(null);
-    setAccount(null);
-    setChainId(null);
-    setNetwork(null);
-  };
-
-  const switchNetwork = async (targetChainId: number) => {
-    if (!provider) throw new Error("Wallet not connected");
-
-    try {
-      const hexChainId = `0x${targetChainId.toString(16)}`;
-
-      await provider.send("wallet_switchEthereumChain", [
-        { chainId: hexChainId },
-      ]);
-    } catch (switchError: any) {
-      // This error code indicates that the chain has not been added to MetaMask
-      if (switchError.code === 4902) {
-        const networkInfo = SUPPORTED_NETWORKS[targetChainId];
-        if (!networkInfo) {
-          throw new Error(`Network ${targetChainId} is not configured`);
-        }
-
-        // Add the network to MetaMask
-        await provider.send("wallet_addEthereumChain", [
-          {
-            chainId: chainId,
-            chainName: networkInfo.name,
-            nativeCurrency: {
-              name: networkInfo.nativeCurrency,
-              symbol: networkInfo.nativeCurrency,
-              decimals: 18,
-            },
-            rpcUrls: getRpcUrls(targetChainId),
-            blockExplorerUrls: [networkInfo.explorerUrl],
-          },
-        ]);
-      } else {
-        throw switchError;
-      }
-    }
-  };
-
-  const getRpcUrls = (chainId: number): string[] => {
-    const rpcMap: Record<number, string[]> = {
-      1: ["https://mainnet.infura.io/v3/YOUR_INFURA_KEY"],
-      11155111: ["https://sepolia.infura.io/v3/YOUR_INFURA_KEY"],
-      5: ["https://goerli.infura.io/v3/YOUR_INFURA_KEY"],
-      8453: ["https://mainnet.base.org"],
-      84532: ["https://sepolia.base.org"],
-    };
-    return rpcMap[chainId] || ["https://ethereum.publicnode.com"];
+// Chain shown in read-only mode before any wallet is connected
+export const DEFAULT_CHAIN_ID = 11155111;
+
+const INFURA_KEY = import.meta.env.VITE_INFURA_KEY;
+
+/**
+ * RPC endpoints for a chain. `VITE_RPC_URL_<chainId>` overrides the defaults;
+ * Infura is only used when `VITE_INFURA_KEY` is set.
+ */
+export const getRpcUrls = (chainId: number): string[] => {
+  const override = import.meta.env[`VITE_RPC_URL_${chainId}`];
+  if (override) return [override];
+
+  const rpcMap: Record<number, string[]> = {
+    1: [
+      INFURA_KEY
+        ? `https://mainnet.infura.io/v3/${INFURA_KEY}`
+        : "https://ethereum-rpc.publicnode.com",
+    ],
+    11155111: [
+      INFURA_KEY
+        ? `https://sepolia.infura.io/v3/${INFURA_KEY}`
+        : "https://ethereum-sepolia-rpc.publicnode.com",
+    ],
+    5: [`https://goerli.infura.io/v3/${INFURA_KEY}`],
+    8453: ["https://mainnet.base.org"],
+    84532: ["https://sepolia.base.org"],
   };
+  return rpcMap[chainId] || ["https://ethereum.publicnode.com"];
+};
 
-  return {
-    provider,
-    signer,
-    account,
-    chainId,
-    network,
-    isConnected: !!account,
-    connectWallet,
-    disconnectWallet,
-    switchNetwork,
-  };
+export const useWeb3 = (): Web3ContextValue => {
+  const context = useContext(Web3Context);
+  if (!context) {
+    throw new Error("useWeb3 must be used within a <Web3Provider>");
+  }
+  return context;
 };
@@ -0,0 +1,266 @@
+import type { Provider } from "ethers";
+import { getVaultContract, type VaultContract } from "../contracts/vaultABI";
+
+export type ActivityKind = "deposit" | "withdrawal" | "emergencyWithdrawal";
+
+export interface ActivityEntry {
+  id: string; // txHash:logIndex
+  kind: ActivityKind;
+  token: string;
+  amount: string; // raw token units; bigint is not JSON-serialisable
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number; // unix seconds
+  txHash: string;
+}
+
+export interface ActivitySnapshot {
+  entries: ActivityEntry[]; // newest first
+  syncing: boolean;
+  error: unknown;
+}
+
+interface StoredActivity {
+  lastScannedBlock: number;
+  entries: ActivityEntry[];
+}
+
+// Bump when the shape of ActivityEntry changes; older caches are discarded
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:activity";
+
+// Most RPCs cap eth_getLogs ranges (often 10k blocks, some far lower), so
+// ranges are scanned in chunks that shrink when the node refuses them
+const INITIAL_CHUNK_SIZE = 10_000;
+const MIN_CHUNK_SIZE = 100;
+
+// Without a known deployment block, only this much history is scanned
+const DEFAULT_LOOKBACK_BLOCKS = 50_000;
+
+// Recent blocks are scanned again on every sync: they may since have been
+// reorged, and a load-balanced node can answer getLogs from behind the head
+const RESCAN_BLOCKS = 64;
+
+const EMPTY_SNAPSHOT: ActivitySnapshot = {
+  entries: [],
+  syncing: false,
+  error: null,
+};
+
+export const activityKey = (
+  chainId: number,
+  vaultAddress: string,
+  account: string,
+) => `${chainId}:${vaultAddress.toLowerCase()}:${account.toLowerCase()}`;
+
+const loadStored = (): Record<string, StoredActivity> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    const stored = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return {};
+    }
+    return stored.accounts;
+  } catch {
+    return {};
+  }
+};
+
+const stored = loadStored();
+const snapshots = new Map<string, ActivitySnapshot>(
+  Object.entries(stored).map(([key, { entries }]) => [
+    key,
+    { ...EMPTY_SNAPSHOT, entries },
+  ]),
+);
+const inflight = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+const setSnapshot = (key: string, changes: Partial<ActivitySnapshot>) => {
+  snapshots.set(key, {
+    ...(snapshots.get(key) ?? EMPTY_SNAPSHOT),
+    ...changes,
+  });
+  listeners.forEach((listener) => listener());
+};
+
+const saveStored = (
+  key: string,
+  lastScannedBlock: number,
+  entries: ActivityEntry[],
+) => {
+  stored[key] = { lastScannedBlock, entries };
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: STORAGE_VERSION, accounts: stored }),
+    );
+  } catch {
+    // Storage full or unavailable; the next visit rescans
+  }
+};
+
+export const subscribeActivity = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getActivitySnapshot = (key: string | null): ActivitySnapshot =>
+  (key && snapshots.get(key)) || EMPTY_SNAPSHOT;
+
+// The fields all three vault events share
+interface VaultActivityLog {
+  args: { token: string; amount: bigint };
+  transactionHash: string;
+  index: number;
+  blockNumber: number;
+}
+
+const toEntry = (
+  kind: ActivityKind,
+  log: VaultActivityLog,
+): Omit<ActivityEntry, "timestamp"> => ({
+  id: `${log.transactionHash}:${log.index}`,
+  kind,
+  token: log.args.token,
+  amount: log.args.amount.toString(),
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  txHash: log.transactionHash,
+});
+
+const queryRange = async (
+  vault: VaultContract,
+  account: string,
+  fromBlock: number,
+  toBlock: number,
+) => {
+  const [deposits, withdrawals, emergencies] = await Promise.all([
+    vault.queryFilter(vault.filters.Deposit(account), fromBlock, toBlock),
+    vault.queryFilter(vault.filters.Withdrawal(account), fromBlock, toBlock),
+    vault.queryFilter(
+      vault.filters.EmergencyWithdrawal(null, null, account),
+      fromBlock,
+      toBlock,
+    ),
+  ]);
+
+  return [
+    ...deposits.map((log) => toEntry("deposit", log)),
+    ...withdrawals.map((log) => toEntry("withdrawal", log)),
+    ...emergencies.map((log) => toEntry("emergencyWithdrawal", log)),
+  ];
+};
+
+const withTimestamps = async (
+  provider: Provider,
+  entries: Omit<ActivityEntry, "timestamp">[],
+): Promise<ActivityEntry[]> => {
+  const blockNumbers = [...new Set(entries.map((entry) => entry.blockNumber))];
+  const blocks = await Promise.all(
+    blockNumbers.map((blockNumber) => provider.getBlock(blockNumber)),
+  );
+  const timestamps = new Map(
+    blocks.map((block, i) => [blockNumbers[i], block?.timestamp ?? 0]),
+  );
+
+  return entries.map((entry) => ({
+    ...entry,
+    timestamp: timestamps.get(entry.blockNumber) ?? 0,
+  }));
+};
+
+const byNewest = (a: ActivityEntry, b: ActivityEntry) =>
+  b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+
+const scan = async (
+  provider: Provider,
+  key: string,
+  vaultAddress: string,
+  account: string,
+  deploymentBlock: number,
+) => {
+  const vault = getVaultContract(vaultAddress, provider);
+  const latest = await provider.getBlockNumber();
+
+  const cached = stored[key];
+  let fromBlock = cached
+    ? Math.max(deploymentBlock, cached.lastScannedBlock + 1 - RESCAN_BLOCKS)
+    : deploymentBlock > 0
+      ? deploymentBlock
+      : Math.max(0, latest - DEFAULT_LOOKBACK_BLOCKS);
+  let entries = cached?.entries ?? [];
+  let chunkSize = INITIAL_CHUNK_SIZE;
+
+  while (fromBlock <= latest) {
+    const toBlock = Math.min(fromBlock + chunkSize - 1, latest);
+
+    let found;
+    try {
+      found = await queryRange(vault, account, fromBlock, toBlock);
+    } catch (err) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw err;
+      chunkSize = Math.max(MIN_CHUNK_SIZE, Math.floor(chunkSize / 2));
+      continue;
+    }
+
+    // The chunk's logs replace what was cached for its blocks, dropping
+    // entries that were reorged out. Saved per chunk, so an interrupted scan
+    // resumes where it stopped.
+    const inRange = (entry: { blockNumber: number }) =>
+      entry.blockNumber >= fromBlock && entry.blockNumber <= toBlock;
+    const known = new Map(
+      entries.filter(inRange).map((entry) => [entry.id, entry]),
+    );
+    const fresh = await withTimestamps(
+      provider,
+      found.filter((entry) => !known.has(entry.id)),
+    );
+    const kept = found.flatMap((entry) => known.get(entry.id) ?? []);
+    if (fresh.length > 0 || kept.length < known.size) {
+      entries = [
+        ...entries.filter((entry) => !inRange(entry)),
+        ...kept,
+        ...fresh,
+      ].sort(byNewest);
+      setSnapshot(key, { entries });
+    }
+    saveStored(key, toBlock, entries);
+    fromBlock = toBlock + 1;
+  }
+};
+
+/**
+ * Brings the cached vault activity of `account` up to date, scanning only
+ * blocks after the last scanned one (and the few before it, in case they
+ * changed). Concurrent calls share one scan; failures are reported through
+ * the snapshot's `error`.
+ */
+export const syncActivity = (
+  provider: Provider,
+  chainId: number,
+  vaultAddress: string,
+  account: string,
+  deploymentBlock: number,
+): Promise<void> => {
+  const key = activityKey(chainId, vaultAddress, account);
+
+  let request = inflight.get(key);
+  if (!request) {
+    setSnapshot(key, { syncing: true, error: null });
+    request = scan(provider, key, vaultAddress, account, deploymentBlock)
+      .then(() => setSnapshot(key, { syncing: false }))
+      .catch((err) => {
+        console.error("Failed to sync vault activity:", err);
+        setSnapshot(key, { syncing: false, error: err });
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, request);
+  }
+  return request;
+};
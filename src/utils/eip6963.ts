@@ -0,0 +1,48 @@
+import type { InjectedEthereum } from "../context/Web3Context";
+
+// EIP-6963: Multi Injected Provider Discovery
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // data URI
+  rdns: string; // reverse DNS id, e.g. "io.metamask"
+}
+
+export interface WalletDetail {
+  info: WalletInfo;
+  provider: InjectedEthereum;
+}
+
+type AnnounceProviderEvent = CustomEvent<WalletDetail>;
+
+declare global {
+  interface WindowEventMap {
+    "eip6963:announceProvider": AnnounceProviderEvent;
+  }
+}
+
+/**
+ * Listens for wallets announcing themselves and asks all installed ones to
+ * (re)announce. `onChange` receives the full, de-duplicated list each time a
+ * new wallet shows up. Returns an unsubscribe function.
+ */
+export const subscribeToWallets = (
+  onChange: (wallets: WalletDetail[]) => void,
+): (() => void) => {
+  const wallets = new Map<string, WalletDetail>();
+
+  const handleAnnounce = (event: AnnounceProviderEvent) => {
+    const { info, provider } = event.detail;
+    if (!info?.rdns || !provider || wallets.has(info.rdns)) return;
+
+    wallets.set(info.rdns, { info, provider });
+    onChange([...wallets.values()]);
+  };
+
+  window.addEventListener("eip6963:announceProvider", handleAnnounce);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  return () => {
+    window.removeEventListener("eip6963:announceProvider", handleAnnounce);
+  };
+};
@@ -0,0 +1,106 @@
+import { getAddress, isAddress, type Provider } from "ethers";
+
+// How long a lookup stays valid; misses expire sooner so a freshly
+// registered name or primary name shows up quickly
+const HIT_TTL_MS = 10 * 60_000;
+const MISS_TTL_MS = 2 * 60_000;
+
+type LookupKind = "address" | "name";
+
+interface CacheEntry {
+  value: string | null;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<string | null>>();
+const listeners = new Set<() => void>();
+
+const cacheKey = (chainId: number, kind: LookupKind, input: string) =>
+  `${chainId}:${kind}:${input.toLowerCase()}`;
+
+// Anything with a dot that is not an address is treated as an ENS name
+export const isEnsName = (value: string) => {
+  const trimmed = value.trim();
+  // "0x" alone does not make an address: 0xfoo.eth is a valid name
+  return /^[^\s.]+(\.[^\s.]+)+$/.test(trimmed) && !isAddress(trimmed);
+};
+
+export const subscribeEns = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Cached result of a lookup: the value (null when there is none), or
+ * undefined when it has not been resolved yet or has expired.
+ */
+export const getCachedEns = (
+  chainId: number | null,
+  kind: LookupKind,
+  input: string | null,
+): string | null | undefined => {
+  if (!chainId || !input) return undefined;
+  const entry = cache.get(cacheKey(chainId, kind, input));
+  return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+};
+
+const cached = (
+  chainId: number,
+  kind: LookupKind,
+  input: string,
+  lookup: () => Promise<string | null>,
+): Promise<string | null> => {
+  const known = getCachedEns(chainId, kind, input);
+  if (known !== undefined) return Promise.resolve(known);
+
+  const key = cacheKey(chainId, kind, input);
+  let request = inflight.get(key);
+  if (!request) {
+    request = lookup()
+      .then((value) => {
+        cache.set(key, {
+          value,
+          expiresAt: Date.now() + (value ? HIT_TTL_MS : MISS_TTL_MS),
+        });
+        listeners.forEach((listener) => listener());
+        return value;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, request);
+  }
+  return request;
+};
+
+/**
+ * Address an ENS name points to, or null if it has none. Rejects on RPC
+ * failures, and on chains without an ENS registry.
+ */
+export const resolveEnsName = (
+  provider: Provider,
+  chainId: number,
+  name: string,
+): Promise<string | null> =>
+  cached(chainId, "address", name.trim(), async () => {
+    const address = await provider.resolveName(name.trim());
+    return address ? getAddress(address) : null;
+  });
+
+/**
+ * Primary ENS name of `address`. The reverse record can be set to any name,
+ * so it only counts when that name resolves back to the same address.
+ */
+export const lookupEnsName = (
+  provider: Provider,
+  chainId: number,
+  address: string,
+): Promise<string | null> =>
+  cached(chainId, "name", address, async () => {
+    const name = await provider.lookupAddress(address);
+    if (!name) return null;
+
+    const forward = await resolveEnsName(provider, chainId, name);
+    return forward?.toLowerCase() === address.toLowerCase() ? name : null;
+  });
@@ -0,0 +1,187 @@
+import { Interface, isError, isHexString, type ErrorDescription } from "ethers";
+import { VAULT_ABI } from "../contracts/vaultABI";
+import { ERC20_ABI } from "../contracts/erc20ABI";
+import { ERC20_PERMIT_ABI } from "../contracts/erc20PermitABI";
+
+export type ErrorKind =
+  | "rejected" // user declined in the wallet
+  | "insufficient-funds" // not enough native currency for value + gas
+  | "reverted" // the contract rejected the call
+  | "network" // RPC unreachable, timed out or misbehaving
+  | "unknown";
+
+export interface NormalizedError {
+  kind: ErrorKind;
+  userMessage: string; // short, safe to show in a banner
+  details: string; // technical description for logs and "details" toggles
+}
+
+// Revert data is matched against every ABI the app talks to; Error(string)
+// and Panic(uint256) are built into ethers' Interface
+const revertInterfaces = [
+  new Interface(VAULT_ABI),
+  new Interface(ERC20_ABI),
+  new Interface(ERC20_PERMIT_ABI),
+];
+
+const PANIC_MESSAGES: Record<number, string> = {
+  0x01: "an internal assertion failed",
+  0x11: "an amount overflowed or underflowed",
+  0x12: "a division by zero occurred",
+  0x21: "an invalid enum value was used",
+  0x31: "an empty array was popped",
+  0x32: "an array index was out of bounds",
+  0x41: "too much memory was allocated",
+  0x51: "an uninitialized function was called",
+};
+
+const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+  EnforcedPause: "The vault is paused.",
+  ExpectedPause: "The vault is not paused.",
+  OwnableUnauthorizedAccount: "Only the vault owner can do this.",
+  SafeERC20FailedOperation: "The token transfer failed.",
+  ReentrancyGuardReentrantCall: "The vault rejected a reentrant call.",
+  ERC20InsufficientBalance: "Your token balance is too low.",
+  ERC20InsufficientAllowance: "The vault is not approved to spend this much.",
+  ERC20InvalidReceiver: "The token cannot be sent to this address.",
+  ERC2612ExpiredSignature: "The permit signature has expired. Try again.",
+  ERC2612InvalidSigner: "The permit signature was rejected by the token.",
+};
+
+// EIP-1193 "user rejected" code, for wallets whose errors ethers does not wrap
+const EIP1193_USER_REJECTED = 4001;
+
+const NETWORK_CODES = ["NETWORK_ERROR", "TIMEOUT", "SERVER_ERROR"] as const;
+
+const MAX_NESTING = 5;
+
+// Revert data may sit on the error itself or on a wrapped RPC error
+const findRevertData = (err: unknown, depth = 0): string | null => {
+  if (!err || typeof err !== "object" || depth > MAX_NESTING) return null;
+
+  const { data, error, info, cause } = err as Record<string, unknown>;
+  if (isHexString(data) && data.length >= 10) return data;
+
+  for (const nested of [error, info, cause]) {
+    const found = findRevertData(nested, depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+const parseRevert = (data: string): ErrorDescription | null => {
+  for (const iface of revertInterfaces) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return parsed;
+    } catch {
+      // Selector known but arguments malformed; try the next ABI
+    }
+  }
+  return null;
+};
+
+const describeRevert = (
+  revert: ErrorDescription | null,
+): Pick<NormalizedError, "userMessage" | "details"> => {
+  if (!revert) {
+    return {
+      userMessage: "The transaction would fail.",
+      details: "Reverted without a recognisable reason",
+    };
+  }
+
+  const args = revert.args.toArray().map(String).join(", ");
+  const details = `${revert.name}(${args})`;
+
+  if (revert.name === "Error") {
+    return {
+      userMessage: `The transaction would fail: ${revert.args[0]}`,
+      details,
+    };
+  }
+
+  if (revert.name === "Panic") {
+    const code = Number(revert.args[0]);
+    return {
+      userMessage: `The contract failed because ${
+        PANIC_MESSAGES[code] ?? "of an internal error"
+      }.`,
+      details,
+    };
+  }
+
+  return {
+    userMessage:
+      CUSTOM_ERROR_MESSAGES[revert.name] ??
+      `The transaction would fail (${revert.name}).`,
+    details,
+  };
+};
+
+/**
+ * Turns anything thrown by ethers, a wallet or our own code into a typed
+ * error with a message fit for the UI. `fallback` is shown when nothing
+ * more specific is known.
+ */
+export const normalizeError = (
+  err: unknown,
+  fallback = "Something went wrong",
+): NormalizedError => {
+  // ethers errors carry a readable shortMessage next to the verbose message;
+  // raw EIP-1193 errors are plain objects with a message
+  const { shortMessage, message: rawMessage } = (err ?? {}) as {
+    shortMessage?: string;
+    message?: string;
+  };
+  const fullMessage =
+    typeof rawMessage === "string" ? rawMessage : String(err ?? "");
+  const message = shortMessage ?? fullMessage;
+
+  if (
+    isError(err, "ACTION_REJECTED") ||
+    (err as { code?: unknown })?.code === EIP1193_USER_REJECTED
+  ) {
+    return {
+      kind: "rejected",
+      userMessage: "You rejected the request in your wallet.",
+      details: fullMessage,
+    };
+  }
+
+  if (isError(err, "INSUFFICIENT_FUNDS")) {
+    return {
+      kind: "insufficient-funds",
+      userMessage: "Not enough funds to cover the amount and network fee.",
+      details: fullMessage,
+    };
+  }
+
+  const revertData = findRevertData(err);
+  if (isError(err, "CALL_EXCEPTION") || revertData) {
+    const revert = revertData ? parseRevert(revertData) : null;
+    const described = describeRevert(revert);
+    return {
+      kind: "reverted",
+      userMessage: described.userMessage,
+      details: revertData
+        ? `${described.details} (data: ${revertData}) - ${fullMessage}`
+        : `${described.details} - ${fullMessage}`,
+    };
+  }
+
+  if (NETWORK_CODES.some((code) => isError(err, code))) {
+    return {
+      kind: "network",
+      userMessage:
+        "Could not reach the network. Check your connection and try again.",
+      details: fullMessage,
+    };
+  }
+
+  return {
+    kind: "unknown",
+    userMessage: message || fallback,
+    details: fullMessage,
+  };
+};
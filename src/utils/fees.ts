@@ -0,0 +1,141 @@
+import { Interface, Transaction, type Provider } from "ethers";
+import {
+  GAS_PRICE_ORACLE_ABI,
+  GAS_PRICE_ORACLE_ADDRESS,
+} from "../contracts/gasPriceOracleABI";
+import { SUPPORTED_NETWORKS } from "../hooks/useWeb3";
+import { batchRead } from "./multicall";
+
+export type FeeTier = "slow" | "normal" | "fast";
+
+export const FEE_TIERS: FeeTier[] = ["slow", "normal", "fast"];
+
+// Passed straight into ethers as transaction overrides
+export interface FeeOverrides {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint; // pre-EIP-1559 chains only
+}
+
+export interface FeeQuote {
+  overrides: FeeOverrides;
+  expectedFeePerGas: bigint; // what the tx will most likely pay per gas
+  maxFeePerGas: bigint; // upper bound per gas
+}
+
+// Percentages applied to the base fee headroom and the suggested tip.
+// "normal" allows 1.5x the current base fee, less than ethers' default of
+// 2x; "fast" matches ethers.
+const TIER_SETTINGS: Record<
+  FeeTier,
+  { baseFeePercent: bigint; priorityPercent: bigint }
+> = {
+  slow: { baseFeePercent: 110n, priorityPercent: 80n },
+  normal: { baseFeePercent: 150n, priorityPercent: 100n },
+  fast: { baseFeePercent: 200n, priorityPercent: 150n },
+};
+
+const percent = (value: bigint, pct: bigint) => (value * pct) / 100n;
+
+/**
+ * Current fee suggestions for every tier, from `getFeeData` and the latest
+ * block's base fee. Falls back to legacy gas prices where EIP-1559 is absent.
+ */
+export const getFeeQuotes = async (
+  provider: Provider,
+): Promise<Record<FeeTier, FeeQuote>> => {
+  const [feeData, block] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBlock("latest"),
+  ]);
+
+  const baseFee = block?.baseFeePerGas;
+  const suggestedTip = feeData.maxPriorityFeePerGas;
+
+  const quote = (tier: FeeTier): FeeQuote => {
+    const { baseFeePercent, priorityPercent } = TIER_SETTINGS[tier];
+
+    if (baseFee != null && suggestedTip != null) {
+      const maxPriorityFeePerGas = percent(suggestedTip, priorityPercent);
+      const maxFeePerGas =
+        percent(baseFee, baseFeePercent) + maxPriorityFeePerGas;
+      return {
+        overrides: { maxFeePerGas, maxPriorityFeePerGas },
+        expectedFeePerGas: baseFee + maxPriorityFeePerGas,
+        maxFeePerGas,
+      };
+    }
+
+    // An explicit gasPrice of 0 would never be mined
+    if (feeData.gasPrice == null) {
+      throw new Error("Fee data is unavailable from the network. Try again.");
+    }
+    const gasPrice = percent(feeData.gasPrice, priorityPercent);
+    return {
+      overrides: { gasPrice },
+      expectedFeePerGas: gasPrice,
+      maxFeePerGas: gasPrice,
+    };
+  };
+
+  return {
+    slow: quote("slow"),
+    normal: quote("normal"),
+    fast: quote("fast"),
+  };
+};
+
+// Fresh overrides for the chosen tier, fetched right before sending
+export const getFeeOverrides = async (
+  provider: Provider,
+  tier: FeeTier,
+): Promise<FeeOverrides> => (await getFeeQuotes(provider))[tier].overrides;
+
+const gasPriceOracleInterface = new Interface(GAS_PRICE_ORACLE_ABI);
+
+// The oracle prices the unsigned transaction; the signature adds ~65 bytes
+// and the L1 base fee moves between quote and inclusion
+const L1_FEE_MARGIN_PERCENT = 150n;
+
+// A transaction as the fee preview sees it, before it is signed
+export interface UnsignedCall {
+  to: string;
+  data?: string;
+  value?: bigint;
+}
+
+// Gas for an action, with the transactions it sends so chains that also
+// charge per byte (the L1 data fee) can price them
+export interface GasEstimate {
+  gasLimit: bigint;
+  calls: UnsignedCall[];
+}
+
+/**
+ * L1 data fee an OP Stack chain will add to this transaction, with a safety
+ * margin; 0 on chains that have none.
+ */
+export const getL1DataFee = async (
+  provider: Provider,
+  chainId: number,
+  tx: UnsignedCall & { gasLimit: bigint; fees: FeeOverrides },
+): Promise<bigint> => {
+  if (!SUPPORTED_NETWORKS[chainId]?.opStack) return 0n;
+
+  const unsigned = Transaction.from({
+    chainId,
+    to: tx.to,
+    data: tx.data,
+    value: tx.value,
+    gasLimit: tx.gasLimit,
+    nonce: 0,
+    ...tx.fees,
+  }).unsignedSerialized;
+  const fee = await batchRead<bigint>(provider, {
+    target: GAS_PRICE_ORACLE_ADDRESS,
+    iface: gasPriceOracleInterface,
+    method: "getL1Fee",
+    args: [unsigned],
+  });
+  return percent(fee, L1_FEE_MARGIN_PERCENT);
+};
@@ -1,34 +1,299 @@
-import { formatUnits } from "ethers";
+// Amounts are formatted and parsed as bigints end to end; going through
+// Number loses precision past 2^53 wei (~0.009 of an 18-decimal token).
+
+// Same names as Intl.NumberFormat's roundingMode
+export type RoundingMode =
+  | "trunc" // toward zero; never overstates a balance
+  | "floor"
+  | "ceil"
+  | "expand" // away from zero
+  | "halfExpand"
+  | "halfEven";
+
+export interface AmountFormatOptions {
+  maxFractionDigits?: number; // default 6, or 1 in compact notation
+  minFractionDigits?: number; // padded with zeros, default 0
+  // Significant digits to show. Whole digits are never dropped, and amounts
+  // below 1 get as many fraction digits as it takes, so dust stays visible.
+  significantDigits?: number;
+  rounding?: RoundingMode; // default "trunc"
+  compact?: boolean; // 1.2K, 3.4M, 5.6B, 7.8T
+  locale?: string; // separators; defaults to the browser's locale
+  useGrouping?: boolean; // thousands separators, default true
+}
+
+// Without significantDigits or maxFractionDigits, amounts that would round
+// to 0 still show this many significant digits
+const DUST_SIGNIFICANT_DIGITS = 2;
+
+const COMPACT_SUFFIXES = ["", "K", "M", "B", "T"];
+
+const separatorsFor = (locale: string | undefined) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.8);
+  return {
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+  };
+};
+
+// Rounds a magnitude; floor and ceil are mapped by sign before this
+const roundQuotient = (
+  quotient: bigint,
+  remainder: bigint,
+  divisor: bigint,
+  mode: RoundingMode,
+): bigint => {
+  if (remainder === 0n) return quotient;
+
+  const twice = remainder * 2n;
+  const roundAway =
+    mode === "expand" ||
+    (mode === "halfExpand" && twice >= divisor) ||
+    (mode === "halfEven" &&
+      (twice > divisor || (twice === divisor && quotient % 2n === 1n)));
+  return roundAway ? quotient + 1n : quotient;
+};
+
+const formatScaled = (
+  abs: bigint,
+  decimals: number,
+  options: AmountFormatOptions,
+  defaultMaxFraction: number,
+): { whole: bigint; fraction: string } => {
+  const base = 10n ** BigInt(decimals);
+  const whole = abs / base;
+
+  let fractionDigits = options.maxFractionDigits ?? defaultMaxFraction;
+  // Zeros between the separator and the first significant digit
+  const leadingZeros = decimals - abs.toString().length;
+  if (options.significantDigits !== undefined) {
+    fractionDigits =
+      whole > 0n
+        ? Math.min(
+            fractionDigits,
+            Math.max(0, options.significantDigits - whole.toString().length),
+          )
+        : leadingZeros + options.significantDigits;
+  } else if (
+    options.maxFractionDigits === undefined &&
+    whole === 0n &&
+    abs > 0n &&
+    leadingZeros >= fractionDigits
+  ) {
+    fractionDigits = leadingZeros + DUST_SIGNIFICANT_DIGITS;
+  }
+  fractionDigits = Math.min(
+    Math.max(fractionDigits, options.minFractionDigits ?? 0),
+    decimals,
+  );
+
+  const divisor = 10n ** BigInt(decimals - fractionDigits);
+  const rounded = roundQuotient(
+    abs / divisor,
+    abs % divisor,
+    divisor,
+    options.rounding ?? "trunc",
+  );
+  const scale = 10n ** BigInt(fractionDigits);
+  const fraction = (rounded % scale)
+    .toString()
+    .padStart(fractionDigits, "0")
+    .slice(0, fractionDigits)
+    .replace(/0+$/, "")
+    .padEnd(options.minFractionDigits ?? 0, "0");
+  return { whole: rounded / scale, fraction: fractionDigits ? fraction : "" };
+};
+
+/**
+ * Formats a raw token amount for display, e.g. 1234567890n with 6 decimals
+ * as "1,234.56789". Exact for any size of amount.
+ */
+export const formatAmount = (
+  value: bigint,
+  decimals: number,
+  options: AmountFormatOptions = {},
+): string => {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const { decimal, group } = separatorsFor(options.locale);
+
+  // formatScaled only sees the magnitude, so floor and ceil become
+  // toward or away from zero depending on the sign
+  const rounding: RoundingMode | undefined =
+    options.rounding === "floor"
+      ? negative
+        ? "expand"
+        : "trunc"
+      : options.rounding === "ceil"
+        ? negative
+          ? "trunc"
+          : "expand"
+        : options.rounding;
+
+  let unit = 0;
+  if (options.compact) {
+    const wholeDigits = (abs / 10n ** BigInt(decimals)).toString().length;
+    unit = Math.min(
+      Math.floor((wholeDigits - 1) / 3),
+      COMPACT_SUFFIXES.length - 1,
+    );
+  }
+
+  let scaled = formatScaled(
+    abs,
+    decimals + unit * 3,
+    { ...options, rounding },
+    options.compact ? 1 : 6,
+  );
+  // Rounding 999.96K up must read 1M, not 1,000K (and 999.96 must read 1K)
+  if (
+    options.compact &&
+    unit < COMPACT_SUFFIXES.length - 1 &&
+    scaled.whole >= 1000n
+  ) {
+    unit++;
+    scaled = formatScaled(
+      abs,
+      decimals + unit * 3,
+      { ...options, rounding },
+      1,
+    );
+  }
+
+  const whole =
+    options.useGrouping === false
+      ? scaled.whole.toString()
+      : scaled.whole.toString().replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  const isZero = scaled.whole === 0n && !/[1-9]/.test(scaled.fraction);
+  return `${negative && !isZero ? "-" : ""}${whole}${
+    scaled.fraction ? decimal + scaled.fraction : ""
+  }${COMPACT_SUFFIXES[unit]}`;
+};
 
 export const formatTokenAmount = (
   amount: bigint | string,
   decimals: number,
+  options?: AmountFormatOptions,
 ): string => {
   try {
     const amountBigInt = typeof amount === "string" ? BigInt(amount) : amount;
-    return parseFloat(formatUnits(amountBigInt, decimals)).toLocaleString(
-      "en-US",
-      {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: decimals < 6 ? decimals : 6,
-      },
-    );
+    return formatAmount(amountBigInt, decimals, options);
   } catch (error) {
     console.error("Format error:", error);
     return "0";
   }
 };
 
+/**
+ * Parses an amount typed by the user into raw token units. Throws with a
+ * message fit for an inline error when the text is not a plain,
+ * non-negative number or has more fraction digits than the token. Without
+ * a locale, "." is the decimal separator and "," groups thousands, which is
+ * what number inputs produce.
+ */
+export const parseTokenAmount = (
+  input: string,
+  decimals: number,
+  options: { locale?: string } = {},
+): bigint => {
+  const { decimal, group } = options.locale
+    ? separatorsFor(options.locale)
+    : { decimal: ".", group: "," };
+  // Some locales group with (narrow) no-break spaces that users type as spaces
+  const text = input.trim().replace(/\s/g, /\s/.test(group) ? group : "");
+
+  if (!text) throw new Error("Enter an amount");
+  if (text.startsWith("-")) throw new Error("The amount cannot be negative");
+  if (/e/i.test(text)) {
+    throw new Error("Enter the amount as a plain number, like 1.5");
+  }
+
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(
+    `^(\\d{1,3}(?:${escape(group)}\\d{3})+|\\d*)(?:${escape(decimal)}(\\d*))?$`,
+  ).exec(text);
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error("Enter a valid number");
+  }
+
+  const whole = match[1].split(group).join("");
+  const fraction = match[2] ?? "";
+  if (fraction.length > decimals) {
+    throw new Error(
+      decimals === 0
+        ? "This token has no decimal places"
+        : `This token supports at most ${decimals} decimal places`,
+    );
+  }
+  return BigInt((whole || "0") + fraction.padEnd(decimals, "0"));
+};
+
 export const shortenAddress = (address: string, chars = 4): string => {
   return `${address.slice(0, chars + 2)}...${address.slice(-chars)}`;
 };
 
-export const getTokenIcon = (symbol: string): string => {
-  const icons: Record<string, string> = {
-    USDT: "/icons/usdt.png",
-    USDC: "/icons/usdc.png",
-    DAI: "/icons/dai.png",
-    // Add more icons as needed
-  };
-  return icons[symbol] || "/icons/default-token.png";
+// Option label for token selects: the symbol, plus the name when it adds
+// anything, e.g. "USDC · USD Coin"
+export const formatTokenLabel = (
+  token: { symbol: string; name: string } | undefined,
+  fallback: string,
+): string => {
+  if (!token) return fallback;
+  return token.name && token.name !== token.symbol
+    ? `${token.symbol} · ${token.name}`
+    : token.symbol;
 };
+
+// USD amount in 18-decimal fixed point, rounded to cents: "$1,234.56"
+export const formatUsd = (value: bigint, locale?: string): string => {
+  if (value > 0n && value < 5n * 10n ** 15n) return "< $0.01";
+
+  return `$${formatAmount(value, 18, {
+    minFractionDigits: 2,
+    maxFractionDigits: 2,
+    rounding: "halfExpand",
+    locale,
+  })}`;
+};
+
+export interface AmountCheck {
+  amount: bigint | null; // set only for a positive amount within the limit
+  error: string | null; // an empty field is not an error
+}
+
+/**
+ * Validates an amount field against the token's decimals and the balance
+ * it is drawn from. `decimals` and `available` are null while loading,
+ * which leaves the amount unset without reporting an error.
+ */
+export const checkTokenAmount = (
+  input: string,
+  decimals: number | null,
+  available: bigint | null,
+): AmountCheck => {
+  if (!input.trim() || decimals === null) return { amount: null, error: null };
+
+  let amount: bigint;
+  try {
+    amount = parseTokenAmount(input, decimals);
+  } catch (err) {
+    return { amount: null, error: (err as Error).message };
+  }
+
+  if (amount === 0n) {
+    return { amount: null, error: "Enter an amount greater than 0" };
+  }
+  if (available === null) return { amount: null, error: null };
+  if (amount > available) {
+    return { amount: null, error: "The amount exceeds the available balance" };
+  }
+  return { amount, error: null };
+};
+
+// Exact text for an amount field, in the form parseTokenAmount reads back
+export const formatAmountInput = (value: bigint, decimals: number): string =>
+  formatAmount(value, decimals, {
+    maxFractionDigits: decimals,
+    useGrouping: false,
+    locale: "en-US",
+  });
@@ -0,0 +1,68 @@
+import { getAddress } from "ethers";
+
+// Bump when the stored shape changes; older lists are discarded
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:importedTokens";
+
+// Checksummed token addresses the user imported, per chain id
+type ImportedTokens = Record<number, string[]>;
+
+const EMPTY: string[] = [];
+
+const loadImported = (): ImportedTokens => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    const stored = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return {};
+    }
+    return stored.chains;
+  } catch {
+    return {};
+  }
+};
+
+let imported: ImportedTokens = loadImported();
+const listeners = new Set<() => void>();
+
+const setImported = (next: ImportedTokens) => {
+  imported = next;
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: STORAGE_VERSION, chains: imported }),
+    );
+  } catch {
+    // Storage full or unavailable; the list lasts for this session
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeImportedTokens = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Stable per chain until the list changes, for useSyncExternalStore
+export const getImportedTokens = (chainId: number | null): string[] =>
+  (chainId && imported[chainId]) || EMPTY;
+
+export const importToken = (chainId: number, address: string) => {
+  const token = getAddress(address);
+  const current = getImportedTokens(chainId);
+  if (current.includes(token)) return;
+  setImported({ ...imported, [chainId]: [...current, token] });
+};
+
+export const removeImportedToken = (chainId: number, address: string) => {
+  const token = getAddress(address);
+  setImported({
+    ...imported,
+    [chainId]: getImportedTokens(chainId).filter((entry) => entry !== token),
+  });
+};
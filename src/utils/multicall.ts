@@ -0,0 +1,145 @@
+import { Contract, Interface, isAddress, type Provider } from "ethers";
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from "../contracts/multicall3ABI";
+
+export interface BatchCall {
+  target: string;
+  iface: Interface;
+  method: string;
+  args?: readonly unknown[];
+}
+
+interface PendingCall extends BatchCall {
+  callData: string;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+// Reads queued within this window (one render/effect cycle) share an eth_call
+const BATCH_WAIT_MS = 10;
+// Keeps a single eth_call well below typical RPC gas and payload limits
+const MAX_CALLS_PER_BATCH = 100;
+
+const multicallInterface = new Interface(MULTICALL3_ABI);
+
+interface Batcher {
+  queue: PendingCall[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const batchers = new WeakMap<Provider, Batcher>();
+
+const decodeResult = (call: PendingCall, returnData: string) => {
+  const result = call.iface.decodeFunctionResult(call.method, returnData);
+  // Single return values are unwrapped, like ethers Contract does
+  return result.length === 1 ? result[0] : result;
+};
+
+// Fallback for chains without Multicall3: plain eth_call per read
+const callIndividually = (provider: Provider, calls: PendingCall[]) =>
+  Promise.all(
+    calls.map(async (call) => {
+      try {
+        const returnData = await provider.call({
+          to: call.target,
+          data: call.callData,
+        });
+        call.resolve(decodeResult(call, returnData));
+      } catch (err) {
+        call.reject(err);
+      }
+    }),
+  );
+
+const executeBatch = async (provider: Provider, calls: PendingCall[]) => {
+  if (calls.length === 1) {
+    await callIndividually(provider, calls);
+    return;
+  }
+
+  const multicall = new Contract(
+    MULTICALL3_ADDRESS,
+    multicallInterface,
+    provider,
+  );
+
+  let results: { success: boolean; returnData: string }[];
+  try {
+    results = await multicall.aggregate3.staticCall(
+      calls.map((call) => ({
+        target: call.target,
+        allowFailure: true,
+        callData: call.callData,
+      })),
+    );
+  } catch (err) {
+    console.warn("Multicall3 unavailable, falling back to single calls:", err);
+    await callIndividually(provider, calls);
+    return;
+  }
+
+  // One failing read must not take down the rest of the batch
+  results.forEach(({ success, returnData }, i) => {
+    const call = calls[i];
+    if (!success) {
+      call.reject(new Error(`${call.method} reverted on ${call.target}`));
+      return;
+    }
+    try {
+      call.resolve(decodeResult(call, returnData));
+    } catch (err) {
+      call.reject(err);
+    }
+  });
+};
+
+const flush = (provider: Provider) => {
+  const batcher = batchers.get(provider);
+  if (!batcher) return;
+
+  const queue = batcher.queue;
+  batcher.queue = [];
+  batcher.timer = null;
+
+  for (let i = 0; i < queue.length; i += MAX_CALLS_PER_BATCH) {
+    executeBatch(provider, queue.slice(i, i + MAX_CALLS_PER_BATCH));
+  }
+};
+
+/**
+ * Queues a contract read and resolves with its decoded result. All reads
+ * queued on the same provider within one cycle go out as a single
+ * Multicall3 `aggregate3` eth_call; each read fails independently.
+ */
+export const batchRead = <T = unknown>(
+  provider: Provider,
+  call: BatchCall,
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    // An invalid target would make the whole aggregate3 call unencodable
+    if (!isAddress(call.target)) {
+      reject(new Error(`Invalid contract address: ${call.target}`));
+      return;
+    }
+
+    let callData: string;
+    try {
+      callData = call.iface.encodeFunctionData(call.method, call.args ?? []);
+    } catch (err) {
+      reject(err);
+      return;
+    }
+
+    let batcher = batchers.get(provider);
+    if (!batcher) {
+      batcher = { queue: [], timer: null };
+      batchers.set(provider, batcher);
+    }
+
+    batcher.queue.push({
+      ...call,
+      callData,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+    });
+    batcher.timer ??= setTimeout(() => flush(provider), BATCH_WAIT_MS);
+  });
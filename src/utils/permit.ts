@@ -0,0 +1,158 @@
+import {
+  Interface,
+  Signature,
+  TypedDataEncoder,
+  id,
+  type Provider,
+  type Signer,
+  type TypedDataDomain,
+} from "ethers";
+import { ERC20_PERMIT_ABI } from "../contracts/erc20PermitABI";
+import { batchRead } from "./multicall";
+import { normalizeError } from "./errors";
+
+const permitInterface = new Interface(ERC20_PERMIT_ABI);
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// DAI-style permits (holder, spender, nonce, expiry, allowed) expose a
+// different PERMIT_TYPEHASH; signing EIP-2612 data for them always reverts
+const EIP2612_TYPEHASH = id(
+  "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)",
+);
+
+// Resolved domains per chainId:token; null means no usable permit. Lookups
+// that failed on the network are not kept, so they are retried next time.
+const domains = new Map<string, Promise<TypedDataDomain | null>>();
+
+// null when the token does not have the method; network errors still throw
+const readOptional = <T>(
+  provider: Provider,
+  token: string,
+  method: string,
+  args: unknown[] = [],
+): Promise<T | null> =>
+  batchRead<T>(provider, {
+    target: token,
+    iface: permitInterface,
+    method,
+    args,
+  }).catch((err) => {
+    if (normalizeError(err, "").kind === "network") throw err;
+    return null;
+  });
+
+const detectPermitDomain = async (
+  provider: Provider,
+  chainId: number,
+  token: string,
+  tokenName: string,
+  owner: string,
+): Promise<TypedDataDomain | null> => {
+  const [nonce, separator, typehash, version, eip712Domain] = await Promise.all(
+    [
+      readOptional<bigint>(provider, token, "nonces", [owner]),
+      readOptional<string>(provider, token, "DOMAIN_SEPARATOR"),
+      readOptional<string>(provider, token, "PERMIT_TYPEHASH"),
+      readOptional<string>(provider, token, "version"),
+      readOptional<{ name: string; version: string }>(
+        provider,
+        token,
+        "eip712Domain",
+      ),
+    ],
+  );
+  if (nonce === null || !separator) return null;
+  // Most EIP-2612 tokens keep the typehash private; only a different one rules
+  // the token out
+  if (typehash && typehash !== EIP2612_TYPEHASH) return null;
+
+  // The signed domain must hash to the token's DOMAIN_SEPARATOR, otherwise
+  // the permit would revert; try the versions tokens commonly use
+  const candidates = [
+    eip712Domain && { name: eip712Domain.name, version: eip712Domain.version },
+    version && { name: tokenName, version },
+    { name: tokenName, version: "1" },
+    { name: tokenName, version: "2" },
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const domain: TypedDataDomain = {
+      ...candidate,
+      chainId,
+      verifyingContract: token,
+    };
+    if (TypedDataEncoder.hashDomain(domain) === separator) return domain;
+  }
+  return null;
+};
+
+/**
+ * EIP-712 domain for the token's EIP-2612 permit, or null when the token
+ * does not support permit (or its domain cannot be reproduced).
+ */
+export const getPermitDomain = (
+  provider: Provider,
+  chainId: number,
+  token: string,
+  tokenName: string,
+  owner: string,
+): Promise<TypedDataDomain | null> => {
+  const key = `${chainId}:${token.toLowerCase()}`;
+  let domain = domains.get(key);
+  if (!domain) {
+    domain = detectPermitDomain(
+      provider,
+      chainId,
+      token,
+      tokenName,
+      owner,
+    ).catch((err) => {
+      console.warn(`Permit detection failed for ${token}:`, err);
+      domains.delete(key);
+      return null;
+    });
+    domains.set(key, domain);
+  }
+  return domain;
+};
+
+export interface PermitRequest {
+  token: string;
+  owner: string;
+  spender: string;
+  value: bigint;
+  deadline: bigint;
+}
+
+export const signPermit = async (
+  signer: Signer,
+  provider: Provider,
+  domain: TypedDataDomain,
+  { token, owner, spender, value, deadline }: PermitRequest,
+): Promise<Signature> => {
+  const nonce = await batchRead<bigint>(provider, {
+    target: token,
+    iface: permitInterface,
+    method: "nonces",
+    args: [owner],
+  });
+
+  const signature = await signer.signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline,
+  });
+  return Signature.from(signature);
+};
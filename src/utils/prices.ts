@@ -0,0 +1,175 @@
+import { Interface, type Provider } from "ethers";
+import {
+  AGGREGATOR_V3_ABI,
+  type AggregatorV3Abi,
+} from "../contracts/aggregatorV3ABI";
+import type { ContractFunctionReturn } from "../contracts/typedContract";
+import { getPriceFeed } from "../contracts/addresses";
+import { batchRead } from "./multicall";
+
+export interface PriceQuote {
+  usdPrice: bigint; // USD per whole token, USD_DECIMALS fixed point
+  updatedAt: number; // unix seconds of the feed's last answer
+  stale: boolean; // older than the feed's heartbeat
+}
+
+// All USD amounts use this many decimals, whatever the feed reports in
+export const USD_DECIMALS = 18;
+
+// Quotes are re-read after this long; feeds update far less often
+const PRICE_TTL_MS = 60_000;
+
+const aggregatorInterface = new Interface(AGGREGATOR_V3_ABI);
+
+const quotes = new Map<string, { quote: PriceQuote; fetchedAt: number }>();
+// getCachedPrices results per chain and asset list, rebuilt after a quote is
+// stored so snapshots stay stable in between
+const lookups = new Map<string, Record<string, PriceQuote | undefined>>();
+const feedDecimals = new Map<string, number>(); // never changes per feed
+const inflight = new Map<string, Promise<PriceQuote | null>>();
+const listeners = new Set<() => void>();
+
+const priceKey = (chainId: number, asset: string) =>
+  `${chainId}:${asset.toLowerCase()}`;
+
+export const subscribePrices = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCachedPrice = (
+  chainId: number | null,
+  asset: string,
+): PriceQuote | undefined =>
+  chainId ? quotes.get(priceKey(chainId, asset))?.quote : undefined;
+
+// Several assets at once, keyed by the given assets; the same object is
+// returned until a quote changes, for useSyncExternalStore
+export const getCachedPrices = (
+  chainId: number | null,
+  assets: string[],
+): Record<string, PriceQuote | undefined> => {
+  const key = `${chainId}:${assets.join(",")}`;
+  let found = lookups.get(key);
+  if (!found) {
+    found = Object.fromEntries(
+      assets.map((asset) => [asset, getCachedPrice(chainId, asset)]),
+    );
+    lookups.set(key, found);
+  }
+  return found;
+};
+
+const readFeed = async (
+  provider: Provider,
+  feed: string,
+  heartbeat: number,
+): Promise<PriceQuote> => {
+  const [decimals, round] = await Promise.all([
+    feedDecimals.get(feed) ??
+      batchRead<ContractFunctionReturn<AggregatorV3Abi, "decimals">>(provider, {
+        target: feed,
+        iface: aggregatorInterface,
+        method: "decimals",
+      }).then((value) => {
+        feedDecimals.set(feed, Number(value));
+        return Number(value);
+      }),
+    batchRead<ContractFunctionReturn<AggregatorV3Abi, "latestRoundData">>(
+      provider,
+      { target: feed, iface: aggregatorInterface, method: "latestRoundData" },
+    ),
+  ]);
+
+  const [, answer, , updatedAt] = round;
+  // A zero updatedAt means the round never completed
+  if (answer <= 0n || updatedAt === 0n) {
+    throw new Error(`Price feed ${feed} returned no valid answer`);
+  }
+
+  const scale = 10n ** BigInt(Math.abs(USD_DECIMALS - decimals));
+  const age = Date.now() / 1000 - Number(updatedAt);
+  return {
+    usdPrice: decimals <= USD_DECIMALS ? answer * scale : answer / scale,
+    updatedAt: Number(updatedAt),
+    stale: age > heartbeat,
+  };
+};
+
+/**
+ * USD price of a token (or NATIVE_ASSET) from its configured Chainlink
+ * feed. Resolves to null when the chain has no feed for it; stale answers
+ * are still returned, flagged, so the UI can say so.
+ */
+export const fetchPrice = (
+  provider: Provider,
+  chainId: number,
+  asset: string,
+): Promise<PriceQuote | null> => {
+  const config = getPriceFeed(chainId, asset);
+  if (!config) return Promise.resolve(null);
+
+  const key = priceKey(chainId, asset);
+  const cached = quotes.get(key);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) {
+    return Promise.resolve(cached.quote);
+  }
+
+  let request = inflight.get(key);
+  if (!request) {
+    request = readFeed(provider, config.feed, config.heartbeat)
+      .then((quote) => {
+        quotes.set(key, { quote, fetchedAt: Date.now() });
+        lookups.clear();
+        listeners.forEach((listener) => listener());
+        return quote;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, request);
+  }
+  return request;
+};
+
+// USD value (USD_DECIMALS fixed point) of a raw token amount
+export const toUsdValue = (
+  amountRaw: bigint,
+  tokenDecimals: number,
+  quote: PriceQuote,
+): bigint => (amountRaw * quote.usdPrice) / 10n ** BigInt(tokenDecimals);
+
+export interface Holding {
+  asset: string; // token address or NATIVE_ASSET
+  label: string; // shown when the holding cannot be priced
+  amountRaw: bigint;
+  decimals: number;
+}
+
+export interface UsdTotal {
+  total: bigint; // USD_DECIMALS fixed point
+  unpriced: string[]; // labels of non-zero holdings left out of the total
+  stale: boolean; // some price in the total is past its heartbeat
+}
+
+// Sum of the holdings that have a price; empty holdings are ignored
+export const sumUsdValue = (
+  holdings: Holding[],
+  quotes: Record<string, PriceQuote | undefined>,
+): UsdTotal =>
+  holdings.reduce<UsdTotal>(
+    (sum, holding) => {
+      if (holding.amountRaw === 0n) return sum;
+
+      const quote = quotes[holding.asset];
+      if (!quote) return { ...sum, unpriced: [...sum.unpriced, holding.label] };
+
+      return {
+        total:
+          sum.total + toUsdValue(holding.amountRaw, holding.decimals, quote),
+        unpriced: sum.unpriced,
+        stale: sum.stale || quote.stale,
+      };
+    },
+    { total: 0n, unpriced: [], stale: false },
+  );
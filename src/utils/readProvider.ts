@@ -0,0 +1,20 @@
+import { JsonRpcProvider, Network } from "ethers";
+import { getRpcUrls } from "../hooks/useWeb3";
+
+const readProviders = new Map<number, JsonRpcProvider>();
+
+/**
+ * Shared JSON-RPC provider for reading a chain without a wallet. The network
+ * is pinned so ethers does not probe eth_chainId before every request.
+ */
+export const getReadProvider = (chainId: number): JsonRpcProvider => {
+  let provider = readProviders.get(chainId);
+  if (!provider) {
+    const network = Network.from(chainId);
+    provider = new JsonRpcProvider(getRpcUrls(chainId)[0], network, {
+      staticNetwork: network,
+    });
+    readProviders.set(chainId, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,207 @@
+import { ZeroAddress, getAddress, isAddress } from "ethers";
+
+export type RecipientIssueSeverity = "error" | "warning";
+
+export interface RecipientIssue {
+  severity: RecipientIssueSeverity; // errors block the transfer
+  message: string;
+}
+
+export interface RecipientContext {
+  input: string; // exactly what the user typed or pasted
+  address: string | null; // resolved recipient
+  account: string | null;
+  token: string | null; // null for ETH transfers
+  vaultAddress: string | null;
+  // Other contracts of this network, name -> address
+  knownContracts: Record<string, string>;
+  pastRecipients: string[];
+}
+
+// Addresses commonly used to burn tokens; nothing sent there comes back
+const BURN_ADDRESSES = new Set(
+  [
+    ZeroAddress,
+    "0x000000000000000000000000000000000000dEaD",
+    "0xdEAD000000000000000042069420694206942069",
+  ].map((address) => address.toLowerCase()),
+);
+
+// Address poisoning: scammers send dust from vanity addresses that share the
+// first and last characters of a real recipient, hoping it gets copied from
+// the history. Wallets usually show 4+4 characters, so 3+3 already fools.
+const SIMILAR_PREFIX = 3;
+const SIMILAR_SUFFIX = 3;
+
+// EIP-7702 delegated accounts have code but are still user accounts
+const DELEGATION_PREFIX = "0xef0100";
+
+// Past recipients kept per chain for the similarity check
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:recipients";
+const MAX_REMEMBERED = 100;
+
+const EMPTY: string[] = [];
+
+const loadRecipients = (): Record<number, string[]> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    const stored = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return {};
+    }
+    return stored.chains;
+  } catch {
+    return {};
+  }
+};
+
+let recipients = loadRecipients();
+const listeners = new Set<() => void>();
+
+export const subscribeRecipients = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Most recent first; stable until the next transfer, for useSyncExternalStore
+export const getPastRecipients = (chainId: number | null): string[] =>
+  (chainId && recipients[chainId]) || EMPTY;
+
+// Called once a transfer has been sent, so later lookalikes can be spotted
+export const rememberRecipient = (chainId: number, address: string) => {
+  const recipient = getAddress(address);
+  const rest = getPastRecipients(chainId).filter(
+    (entry) => entry !== recipient,
+  );
+  recipients = {
+    ...recipients,
+    [chainId]: [recipient, ...rest].slice(0, MAX_REMEMBERED),
+  };
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: STORAGE_VERSION, chains: recipients }),
+    );
+  } catch {
+    // Storage full or unavailable; the history lasts for this session
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const sameAddress = (a: string | null, b: string | null) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const isLookalike = (a: string, b: string) => {
+  const x = a.toLowerCase().slice(2);
+  const y = b.toLowerCase().slice(2);
+  return (
+    x !== y &&
+    x.slice(0, SIMILAR_PREFIX) === y.slice(0, SIMILAR_PREFIX) &&
+    x.slice(-SIMILAR_SUFFIX) === y.slice(-SIMILAR_SUFFIX)
+  );
+};
+
+/**
+ * Checks that need no network access. Runs on every keystroke, so the
+ * input may well be incomplete.
+ */
+export const checkRecipient = (context: RecipientContext): RecipientIssue[] => {
+  const { input, address, account, token, vaultAddress } = context;
+  const issues: RecipientIssue[] = [];
+  const raw = input.trim();
+
+  // A mixed-case address encodes an EIP-55 checksum; isAddress rejects a
+  // wrong one, which almost always means a mistyped character
+  if (/^0x[0-9a-fA-F]{40}$/.test(raw) && !isAddress(raw)) {
+    issues.push({
+      severity: "error",
+      message:
+        "The address checksum does not match. One of its characters is probably wrong.",
+    });
+    return issues;
+  }
+  if (!address) return issues;
+
+  if (raw === address && raw !== getAddress(raw)) {
+    issues.push({
+      severity: "warning",
+      message:
+        "This address has no checksum (it is all lower or upper case), so typos cannot be detected.",
+    });
+  }
+
+  if (BURN_ADDRESSES.has(address.toLowerCase())) {
+    issues.push({
+      severity: "error",
+      message: "This is a burn address. Anything sent to it is lost.",
+    });
+  }
+
+  if (sameAddress(address, token)) {
+    issues.push({
+      severity: "error",
+      message:
+        "This is the token's own contract. Tokens sent to it are almost always lost.",
+    });
+  }
+
+  if (sameAddress(address, vaultAddress)) {
+    issues.push({
+      severity: "error",
+      message:
+        "This is the vault contract. Sending to it directly skips deposit and the funds are not credited to you; use the Vault tab instead.",
+    });
+  }
+
+  const knownContract = Object.entries(context.knownContracts).find(
+    ([, contract]) =>
+      sameAddress(address, contract) && !sameAddress(contract, token),
+  );
+  if (knownContract) {
+    issues.push({
+      severity: "error",
+      message: `This is the ${knownContract[0]} token contract. Funds sent to a token contract are almost always lost.`,
+    });
+  }
+
+  if (sameAddress(address, account)) {
+    issues.push({
+      severity: "warning",
+      message: "This is your own address.",
+    });
+  }
+
+  const lookalike = context.pastRecipients.find((past) =>
+    isLookalike(past, address),
+  );
+  if (lookalike) {
+    issues.push({
+      severity: "warning",
+      message: `This address looks like ${lookalike}, which you sent to before, but it is a different address. Scammers create lookalike addresses to poison transaction history; compare every character.`,
+    });
+  }
+
+  return issues;
+};
+
+// Result of getCode for the recipient, as an issue if it deserves one
+export const checkRecipientCode = (
+  code: string,
+  isEth: boolean,
+): RecipientIssue | null => {
+  if (code === "0x" || code.toLowerCase().startsWith(DELEGATION_PREFIX)) {
+    return null;
+  }
+  return {
+    severity: "warning",
+    message: isEth
+      ? "The recipient is a smart contract. It may reject ETH, or hold it with no way to get it back."
+      : "The recipient is a smart contract. Make sure it can move these tokens out again, or they may be stuck.",
+  };
+};
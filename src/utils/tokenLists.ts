@@ -0,0 +1,341 @@
+import { getAddress, isAddress } from "ethers";
+import bundledList from "../contracts/app.tokenlist.json";
+
+/**
+ * Token metadata from lists in the Uniswap Token Lists format
+ * (https://tokenlists.org). The bundled list is always loaded; lists the
+ * user adds by URL are cached and refreshed on every visit. When several
+ * lists know a token, the bundled list wins, then user lists in the order
+ * they were added.
+ */
+
+export interface TokenTag {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface TokenListEntry {
+  chainId: number;
+  address: string; // checksummed
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string; // already rewritten to https
+  tags: TokenTag[];
+  listName: string;
+}
+
+export interface TokenListStatus {
+  source: string; // "bundled" or the list URL
+  name?: string;
+  tokenCount: number;
+  loading: boolean;
+  error?: string;
+}
+
+interface ValidatedList {
+  name: string;
+  tokens: TokenListEntry[];
+}
+
+// Bump when the stored shape changes; older caches are discarded
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:tokenLists";
+const BUNDLED_SOURCE = "bundled";
+
+// Limits from the token list JSON schema
+const MAX_TOKENS = 10_000;
+const MAX_SYMBOL_LENGTH = 20;
+const MAX_NAME_LENGTH = 60;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Logos are rendered as <img>, so only https (and ipfs via a gateway) pass
+const toLogoUrl = (uri: unknown): string | undefined => {
+  if (typeof uri !== "string") return undefined;
+  if (uri.startsWith("ipfs://")) return IPFS_GATEWAY + uri.slice(7);
+  return uri.startsWith("https://") ? uri : undefined;
+};
+
+// Why a token entry does not match the schema, or null if it does
+const tokenProblem = (token: unknown): string | null => {
+  if (!isRecord(token)) return "is not an object";
+  const { chainId, address, decimals, symbol, name } = token;
+  if (!Number.isSafeInteger(chainId) || (chainId as number) <= 0) {
+    return "has an invalid chainId";
+  }
+  if (typeof address !== "string" || !isAddress(address)) {
+    return "has an invalid address";
+  }
+  if (
+    !Number.isInteger(decimals) ||
+    (decimals as number) < 0 ||
+    (decimals as number) > 255
+  ) {
+    return "has invalid decimals";
+  }
+  if (
+    typeof symbol !== "string" ||
+    symbol === "" ||
+    symbol.length > MAX_SYMBOL_LENGTH
+  ) {
+    return "has an invalid symbol";
+  }
+  if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
+    return "has an invalid name";
+  }
+  return null;
+};
+
+/**
+ * Checks `raw` against the token list schema. A malformed list envelope
+ * rejects the whole list; malformed tokens are skipped and reported.
+ */
+export const validateTokenList = (
+  raw: unknown,
+): { list: ValidatedList; skipped: string[] } => {
+  if (!isRecord(raw)) throw new Error("Token list must be a JSON object");
+
+  const { name, timestamp, version, tokens, tags } = raw;
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error("Token list has no name");
+  }
+  if (typeof timestamp !== "string") {
+    throw new Error(`Token list "${name}" has no timestamp`);
+  }
+  if (
+    !isRecord(version) ||
+    !["major", "minor", "patch"].every(
+      (part) =>
+        Number.isSafeInteger(version[part]) && (version[part] as number) >= 0,
+    )
+  ) {
+    throw new Error(`Token list "${name}" has an invalid version`);
+  }
+  if (!Array.isArray(tokens)) {
+    throw new Error(`Token list "${name}" has no tokens array`);
+  }
+  if (tokens.length > MAX_TOKENS) {
+    throw new Error(`Token list "${name}" has more than ${MAX_TOKENS} tokens`);
+  }
+
+  const tagDefinitions = new Map<string, TokenTag>();
+  if (isRecord(tags)) {
+    for (const [id, tag] of Object.entries(tags)) {
+      if (isRecord(tag) && typeof tag.name === "string") {
+        tagDefinitions.set(id, {
+          id,
+          name: tag.name,
+          description:
+            typeof tag.description === "string" ? tag.description : "",
+        });
+      }
+    }
+  }
+
+  const skipped: string[] = [];
+  const entries: TokenListEntry[] = [];
+  tokens.forEach((token: unknown, i) => {
+    const problem = tokenProblem(token);
+    if (problem || !isRecord(token)) {
+      skipped.push(`token ${i} ${problem}`);
+      return;
+    }
+
+    entries.push({
+      chainId: token.chainId as number,
+      address: getAddress(token.address as string),
+      name: (token.name as string) || (token.symbol as string),
+      symbol: token.symbol as string,
+      decimals: token.decimals as number,
+      logoURI: toLogoUrl(token.logoURI),
+      tags: Array.isArray(token.tags)
+        ? token.tags.flatMap((id) => {
+            const tag = tagDefinitions.get(String(id));
+            return tag ? [tag] : [];
+          })
+        : [],
+      listName: name,
+    });
+  });
+
+  return { list: { name, tokens: entries }, skipped };
+};
+
+const entryKey = (chainId: number, address: string) =>
+  `${chainId}:${address.toLowerCase()}`;
+
+interface StoredLists {
+  version: number;
+  urls: string[];
+  lists: Record<string, unknown>; // last good raw list per URL
+}
+
+const loadStored = (): StoredLists => {
+  const empty = { version: STORAGE_VERSION, urls: [], lists: {} };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return empty;
+
+    const stored: StoredLists = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return empty;
+    }
+    return stored;
+  } catch {
+    return empty;
+  }
+};
+
+const stored = loadStored();
+const lists = new Map<string, ValidatedList>();
+let statuses: TokenListStatus[] = [];
+let index = new Map<string, TokenListEntry>();
+const errors = new Map<string, string>();
+const loading = new Set<string>();
+const listeners = new Set<() => void>();
+let version = 0;
+
+const saveStored = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable; lists are refetched next visit
+  }
+};
+
+const sources = () => [BUNDLED_SOURCE, ...stored.urls];
+
+// Rebuilds the index and statuses, then notifies subscribers
+const publish = () => {
+  index = new Map();
+  for (const source of sources()) {
+    for (const token of lists.get(source)?.tokens ?? []) {
+      const key = entryKey(token.chainId, token.address);
+      if (!index.has(key)) index.set(key, token);
+    }
+  }
+
+  statuses = sources().map((source) => ({
+    source,
+    name: lists.get(source)?.name,
+    tokenCount: lists.get(source)?.tokens.length ?? 0,
+    loading: loading.has(source),
+    error: errors.get(source),
+  }));
+
+  version++;
+  listeners.forEach((listener) => listener());
+};
+
+const applyList = (source: string, raw: unknown) => {
+  const { list, skipped } = validateTokenList(raw);
+  if (skipped.length > 0) {
+    console.warn(
+      `⚠️ Skipped ${skipped.length} invalid tokens in "${list.name}":`,
+      skipped,
+    );
+  }
+  lists.set(source, list);
+  errors.delete(source);
+};
+
+const fetchList = async (url: string): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const refreshList = async (url: string) => {
+  loading.add(url);
+  publish();
+  try {
+    const raw = await fetchList(url);
+    applyList(url, raw);
+    stored.lists[url] = raw;
+    saveStored();
+  } catch (err) {
+    console.error(`Failed to load token list ${url}:`, err);
+    errors.set(url, err instanceof Error ? err.message : String(err));
+  } finally {
+    loading.delete(url);
+    publish();
+  }
+};
+
+// Bundled list, then cached user lists so they apply before the refetch
+try {
+  applyList(BUNDLED_SOURCE, bundledList);
+} catch (err) {
+  console.error("Bundled token list is invalid:", err);
+  errors.set(BUNDLED_SOURCE, String(err));
+}
+for (const url of stored.urls) {
+  try {
+    if (stored.lists[url]) applyList(url, stored.lists[url]);
+  } catch {
+    // A cached copy that no longer validates is simply refetched
+  }
+}
+publish();
+stored.urls.forEach((url) => void refreshList(url));
+
+export const subscribeTokenLists = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Changes whenever any list is loaded, added or removed
+export const getTokenListsVersion = () => version;
+
+export const getTokenListStatuses = (): TokenListStatus[] => statuses;
+
+export const getListedToken = (
+  chainId: number | null,
+  address: string | null,
+): TokenListEntry | undefined =>
+  chainId && address ? index.get(entryKey(chainId, address)) : undefined;
+
+/**
+ * Adds a user-supplied list by URL. Resolves once the list has been
+ * fetched and validated, and rejects (without adding it) otherwise.
+ */
+export const addTokenList = async (url: string): Promise<void> => {
+  const trimmed = url.trim();
+  if (!trimmed.startsWith("https://")) {
+    throw new Error("Token list URLs must start with https://");
+  }
+  if (stored.urls.includes(trimmed)) return;
+
+  const raw = await fetchList(trimmed);
+  applyList(trimmed, raw);
+  stored.urls = [...stored.urls, trimmed];
+  stored.lists[trimmed] = raw;
+  saveStored();
+  publish();
+};
+
+export const removeTokenList = (url: string) => {
+  stored.urls = stored.urls.filter((entry) => entry !== url);
+  delete stored.lists[url];
+  lists.delete(url);
+  errors.delete(url);
+  saveStored();
+  publish();
+};
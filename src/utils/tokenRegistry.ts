@@ -0,0 +1,222 @@
+import {
+  Interface,
+  Utf8ErrorFuncs,
+  getBytes,
+  toUtf8String,
+  type Provider,
+} from "ethers";
+import { ERC20_ABI } from "../contracts/erc20ABI";
+import type { TokenInfo } from "../hooks/useERC20";
+import { batchRead } from "./multicall";
+import { shortenAddress } from "./format";
+import { getListedToken, subscribeTokenLists } from "./tokenLists";
+
+// Bump when the shape of TokenInfo changes; older caches are discarded
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:tokenMetadata";
+
+interface StoredRegistry {
+  version: number;
+  tokens: Record<string, TokenInfo>;
+}
+
+const erc20Interface = new Interface(ERC20_ABI);
+
+// Some early tokens (MKR, SAI, ...) return bytes32 instead of string
+const bytes32Interface = new Interface([
+  "function name() view returns (bytes32)",
+  "function symbol() view returns (bytes32)",
+]);
+
+const tokenKey = (chainId: number, address: string) =>
+  `${chainId}:${address.toLowerCase()}`;
+
+const loadTokens = (): Map<string, TokenInfo> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return new Map();
+
+    const stored: StoredRegistry = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return new Map();
+    }
+    return new Map(Object.entries(stored.tokens));
+  } catch {
+    return new Map();
+  }
+};
+
+const tokens = loadTokens();
+// Chain data with token list logos and tags on top, rebuilt after changes so
+// snapshots stay stable in between
+const decorated = new Map<string, TokenInfo>();
+// getCachedTokens results per chain and address list, kept stable the same way
+const lookups = new Map<string, Record<string, TokenInfo | undefined>>();
+const inflight = new Map<string, Promise<TokenInfo>>();
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  decorated.clear();
+  lookups.clear();
+  listeners.forEach((listener) => listener());
+};
+
+// Logos and tags come from token lists, so list changes are token changes
+subscribeTokenLists(notify);
+
+const saveTokens = () => {
+  try {
+    const stored: StoredRegistry = {
+      version: STORAGE_VERSION,
+      tokens: Object.fromEntries(tokens),
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable; the in-memory cache still works
+  }
+};
+
+const parseBytes32String = (value: string): string => {
+  const bytes = getBytes(value);
+  let end = bytes.length;
+  while (end > 0 && bytes[end - 1] === 0) end--;
+  return toUtf8String(bytes.slice(0, end), Utf8ErrorFuncs.replace).trim();
+};
+
+const readText = async (
+  provider: Provider,
+  address: string,
+  method: "name" | "symbol",
+): Promise<string | null> => {
+  try {
+    return await batchRead<string>(provider, {
+      target: address,
+      iface: erc20Interface,
+      method,
+    });
+  } catch {
+    // Fall through to the bytes32 variant
+  }
+
+  try {
+    const raw = await batchRead<string>(provider, {
+      target: address,
+      iface: bytes32Interface,
+      method,
+    });
+    return parseBytes32String(raw) || null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchFromChain = async (
+  provider: Provider,
+  address: string,
+): Promise<TokenInfo> => {
+  const [name, symbol, decimals] = await Promise.all([
+    readText(provider, address, "name"),
+    readText(provider, address, "symbol"),
+    // There is no safe default for decimals: a wrong guess scales amounts
+    batchRead<bigint>(provider, {
+      target: address,
+      iface: erc20Interface,
+      method: "decimals",
+    }),
+  ]);
+
+  return {
+    name: name || symbol || `Token ${shortenAddress(address)}`,
+    symbol: symbol || "UNKNOWN",
+    decimals: Number(decimals),
+    address,
+  };
+};
+
+export const subscribeTokens = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Name, symbol and decimals always come from the token contract: decimals
+ * scale every amount sent and the name is part of the permit domain, so a
+ * wrong or malicious list must not change them. Lists only add a logo and
+ * tags, and are ignored for a token whose decimals they get wrong.
+ */
+export const getCachedToken = (
+  chainId: number | null,
+  address: string | null,
+): TokenInfo | undefined => {
+  if (!chainId || !address) return undefined;
+
+  const key = tokenKey(chainId, address);
+  const onChain = tokens.get(key);
+  if (!onChain) return undefined;
+
+  let info = decorated.get(key);
+  if (!info) {
+    const listed = getListedToken(chainId, address);
+    if (listed && listed.decimals !== onChain.decimals) {
+      console.warn(
+        `⚠️ Token list "${listed.listName}" says ${listed.symbol} has ${listed.decimals} decimals, the contract says ${onChain.decimals}; ignoring the list entry`,
+      );
+    }
+    info =
+      listed && listed.decimals === onChain.decimals
+        ? { ...onChain, logoURI: listed.logoURI, tags: listed.tags }
+        : onChain;
+    decorated.set(key, info);
+  }
+  return info;
+};
+
+// Several tokens at once, keyed by the given addresses; the same object is
+// returned until the registry changes, for useSyncExternalStore
+export const getCachedTokens = (
+  chainId: number | null,
+  addresses: string[],
+): Record<string, TokenInfo | undefined> => {
+  const key = `${chainId}:${addresses.join(",")}`;
+  let found = lookups.get(key);
+  if (!found) {
+    found = Object.fromEntries(
+      addresses.map((address) => [address, getCachedToken(chainId, address)]),
+    );
+    lookups.set(key, found);
+  }
+  return found;
+};
+
+/**
+ * Token metadata for chainId+address. Served from memory or localStorage
+ * when known, otherwise read once from chain (concurrent callers share the
+ * request) and cached for later sessions.
+ */
+export const fetchTokenInfo = (
+  provider: Provider,
+  chainId: number,
+  address: string,
+): Promise<TokenInfo> => {
+  const key = tokenKey(chainId, address);
+
+  const cached = getCachedToken(chainId, address);
+  if (cached) return Promise.resolve(cached);
+
+  let request = inflight.get(key);
+  if (!request) {
+    request = fetchFromChain(provider, address)
+      .then((info) => {
+        tokens.set(key, info);
+        saveTokens();
+        notify();
+        return info;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, request);
+  }
+  return request;
+};
@@ -0,0 +1,242 @@
+import {
+  isError,
+  type Provider,
+  type TransactionReceipt,
+  type TransactionResponse,
+} from "ethers";
+
+export type TransactionKind =
+  | "approve"
+  | "deposit"
+  | "withdraw"
+  | "transfer"
+  | "transferETH"
+  // Vault owner operations
+  | "addToken"
+  | "removeToken"
+  | "pause"
+  | "unpause"
+  | "emergencyWithdraw";
+
+export type TransactionStatus =
+  | "pending"
+  | "confirmed"
+  | "failed" // mined but reverted
+  | "replaced" // nonce used by a different transaction
+  | "cancelled"; // replaced by a 0-value self transfer
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  kind: TransactionKind;
+  token?: string;
+  amount?: string; // human-readable, in token units
+  status: TransactionStatus;
+  submittedAt: number;
+  startBlock: number; // lower bound for replacement detection
+  blockNumber?: number;
+  originalHash?: string; // set when the wallet sped the transaction up
+  replacedBy?: string;
+}
+
+export interface TransactionMeta {
+  kind: TransactionKind;
+  token?: string;
+  amount?: string;
+}
+
+// Bump when the stored shape changes; older histories are discarded
+const STORAGE_VERSION = 1;
+const STORAGE_KEY = "web3:transactions";
+const MAX_STORED = 50; // finished transactions; pending ones are always kept
+const REPLACEMENT_SCAN_MARGIN = 2;
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    const stored = JSON.parse(raw);
+    if (stored.version !== STORAGE_VERSION) {
+      localStorage.removeItem(STORAGE_KEY);
+      return [];
+    }
+    return stored.transactions;
+  } catch {
+    return [];
+  }
+};
+
+let transactions: TrackedTransaction[] = loadTransactions();
+const listeners = new Set<() => void>();
+const watching = new Set<string>();
+
+const setTransactions = (next: TrackedTransaction[]) => {
+  // Newest first: drop the oldest finished entries, never a pending one,
+  // which would stop it being resumed after a reload
+  let room = MAX_STORED;
+  transactions = next.filter((tx) => tx.status === "pending" || room-- > 0);
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: STORAGE_VERSION, transactions }),
+    );
+  } catch {
+    // Storage full or unavailable; tracking continues in memory
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const updateTransaction = (
+  hash: string,
+  changes: Partial<TrackedTransaction>,
+) => {
+  setTransactions(
+    transactions.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx)),
+  );
+};
+
+export const subscribeTransactions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTransactions = () => transactions;
+
+export const clearFinishedTransactions = (chainId: number) => {
+  setTransactions(
+    transactions.filter(
+      (tx) => tx.chainId !== chainId || tx.status === "pending",
+    ),
+  );
+};
+
+/**
+ * Waits for a tracked transaction, following it through speed-ups. Resolves
+ * with the receipt of whichever transaction finally used the nonce, and
+ * rejects when it reverted or was cancelled/replaced.
+ */
+const watchTransaction = async (
+  tx: TransactionResponse,
+  hash: string,
+): Promise<TransactionReceipt> => {
+  watching.add(hash);
+  try {
+    const receipt = await tx.wait();
+    // wait() only returns null for 0 confirmations, which we never request
+    updateTransaction(hash, {
+      status: "confirmed",
+      blockNumber: receipt!.blockNumber,
+    });
+    return receipt!;
+  } catch (err) {
+    if (isError(err, "TRANSACTION_REPLACED")) {
+      if (err.reason === "repriced") {
+        // Same call with a higher fee: the replacement *is* our transaction
+        updateTransaction(hash, {
+          hash: err.replacement.hash,
+          originalHash: hash,
+          status: err.receipt.status === 1 ? "confirmed" : "failed",
+          blockNumber: err.receipt.blockNumber,
+        });
+        if (err.receipt.status === 1) return err.receipt;
+      } else {
+        updateTransaction(hash, {
+          status: err.reason === "cancelled" ? "cancelled" : "replaced",
+          replacedBy: err.replacement.hash,
+          blockNumber: err.receipt.blockNumber,
+        });
+      }
+    } else if (isError(err, "CALL_EXCEPTION") && err.receipt) {
+      updateTransaction(hash, {
+        status: "failed",
+        blockNumber: err.receipt.blockNumber,
+      });
+    }
+    throw err;
+  } finally {
+    watching.delete(hash);
+  }
+};
+
+/**
+ * Records a just-submitted transaction (persisted across reloads) and waits
+ * for it to be mined. Use instead of `tx.wait()`.
+ */
+export const trackTransaction = async (
+  tx: TransactionResponse,
+  meta: TransactionMeta,
+): Promise<TransactionReceipt> => {
+  // Saved before anything else can fail: the transaction is already sent
+  const record: TrackedTransaction = {
+    ...meta,
+    hash: tx.hash,
+    chainId: Number(tx.chainId),
+    from: tx.from,
+    nonce: tx.nonce,
+    status: "pending",
+    submittedAt: Date.now(),
+    startBlock: 0,
+  };
+  setTransactions([record, ...transactions.filter((t) => t.hash !== tx.hash)]);
+
+  // Replacements can only be mined after submission; the margin covers
+  // blocks produced between sending and this call. Without the head, scan
+  // from genesis rather than miss a replacement.
+  let startBlock = 0;
+  try {
+    startBlock = Math.max(
+      0,
+      (await tx.provider.getBlockNumber()) - REPLACEMENT_SCAN_MARGIN,
+    );
+    updateTransaction(tx.hash, { startBlock });
+  } catch (err) {
+    console.warn(`⚠️ Could not read the block number for ${tx.hash}:`, err);
+  }
+
+  return watchTransaction(tx.replaceableTransaction(startBlock), tx.hash);
+};
+
+/**
+ * Picks up transactions that were still pending when the page was closed.
+ */
+export const resumePendingTransactions = async (
+  provider: Provider,
+  chainId: number,
+) => {
+  const pending = transactions.filter(
+    (tx) =>
+      tx.chainId === chainId &&
+      tx.status === "pending" &&
+      !watching.has(tx.hash),
+  );
+
+  await Promise.all(
+    pending.map(async (record) => {
+      try {
+        const tx = await provider.getTransaction(record.hash);
+        if (tx) {
+          await watchTransaction(
+            tx.replaceableTransaction(record.startBlock),
+            record.hash,
+          ).catch(() => {});
+          return;
+        }
+
+        // The node forgot the transaction: if its nonce has been used since,
+        // something else took its place while we were away
+        const receipt = await provider.getTransactionReceipt(record.hash);
+        const nonce = await provider.getTransactionCount(record.from, "latest");
+        if (!receipt && nonce > record.nonce) {
+          updateTransaction(record.hash, { status: "replaced" });
+        }
+      } catch (err) {
+        console.error(`Failed to resume transaction ${record.hash}:`, err);
+      }
+    }),
+  );
+};
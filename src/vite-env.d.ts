@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_INFURA_KEY?: string;
+  // Per-chain RPC override, e.g. VITE_RPC_URL_11155111
+  readonly [key: `VITE_RPC_URL_${number}`]: string | undefined;
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+  readonly VITE_MOCK_PRIVATE_KEY?: string;
+  readonly VITE_MOCK_RPC_URL?: string;
+  // Contract addresses, see src/contracts/addresses.ts
+  readonly VITE_NETWORK_CONFIG?: string;
+  readonly [key: `VITE_VAULT_ADDRESS_${number}`]: string | undefined;
+  readonly [key: `VITE_VAULT_DEPLOYMENT_BLOCK_${number}`]: string | undefined;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}